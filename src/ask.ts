@@ -0,0 +1,126 @@
+import assert from 'assert';
+import type {
+  CallbackFunction,
+  CallbackFunctionEx,
+  CurriedCallback,
+  WaitInput,
+  WaitInputs,
+} from './callbacks-types';
+import type { Context } from './lib-adapter';
+import { wait, type WaitOptions } from './wait';
+
+/**
+ * Options for asking user input
+ */
+export interface AskOptions<K extends WaitInput = 'text'> extends Omit<WaitOptions, 'input'> {
+  // kind of input to collect, text by default
+  input?: K;
+  // extra options of the question message
+  reply?: Parameters<Context['reply']>[1];
+}
+
+/**
+ * Send a question and wait for the answer, the typed answer is passed to the handler as the last param
+ *
+ * @example
+ * await ask(ctx, 'Send your avatar', handlers.profile.saveAvatar(), { input: 'photo' });
+ *
+ * @param ctx The context
+ * @param question Question text
+ * @param handler Curried handler of the answer
+ * @param options Ask and wait options
+ */
+export async function ask<K extends WaitInput = 'text', Ctx extends Context = Context>(
+  ctx: Ctx,
+  question: string,
+  handler: CurriedCallback<any, [WaitInputs[K]], Ctx>,
+  options?: AskOptions<K>,
+): Promise<void> {
+  const { reply, ...waitOptions } = options ?? {};
+  await ctx.reply(question, reply);
+  wait(ctx, handler as unknown as CurriedCallback<any, [string], Ctx>, {
+    ...waitOptions,
+    input: options?.input ?? 'text',
+  });
+}
+
+/**
+ * Ask function of a flow step, resolves with the answer
+ */
+export type FlowAsk = <K extends WaitInput = 'text'>(
+  question: string,
+  options?: AskOptions<K>,
+) => Promise<WaitInputs[K]>;
+
+export type FlowFunction<A extends any[] = [], Ctx extends Context = Context> = (
+  ctx: Ctx,
+  ask: FlowAsk,
+  ...args: A
+) => Promise<void>;
+
+// Answers collected so far, passed in params of the continuation before the new answer
+const RESUME_KEY = '~ask';
+
+// Thrown by ask to stop the flow until the answer comes
+const flowSuspended = new Error('Flow is waiting for user input, await every ask call');
+
+function isFlowResume(value: unknown): value is { [RESUME_KEY]: unknown[] } {
+  return !!value && typeof value === 'object' && RESUME_KEY in value;
+}
+
+/**
+ * Create a multi-prompt flow, register it with `cb` or `cbs` like any other callback.
+ *
+ * Answers are stored in the wait continuation in session, so the flow survives restarts.
+ * On every answer the flow runs again from the start and `ask` returns the answers
+ * collected so far without sending questions again, so keep side effects
+ * between asks idempotent or move them after the last one.
+ *
+ * @example
+ * const handlers = cbs({
+ *   signup: flow(async (ctx, ask, referrer: string) => {
+ *     const name = await ask('Your name?');
+ *     const contact = await ask('Share your phone', { input: 'contact' });
+ *     await ctx.reply(`Welcome, ${name}! (${contact.phone_number}, from ${referrer})`);
+ *   }),
+ * });
+ *
+ * bot.command('signup', handlers.signup('command'));
+ */
+export function flow<A extends any[] = [], Ctx extends Context = Context>(
+  fn: FlowFunction<A, Ctx>,
+): CallbackFunction<void, A, Ctx> {
+  const run = async (ctx: Ctx, ...params: any[]) => {
+    const self = run as unknown as CallbackFunctionEx<void, any[], Ctx>;
+    assert(self.curried, 'Flow is not registered, wrap it with cb() or cbs()');
+
+    const resume = params.length >= 2 ? params[params.length - 2] : undefined;
+    const resumed = isFlowResume(resume);
+    const args = (resumed ? params.slice(0, -2) : params) as A;
+    const answers = resumed ? [...resume[RESUME_KEY], params[params.length - 1]] : [];
+
+    let step = 0;
+    const askStep = (async (question: string, options?: AskOptions<WaitInput>) => {
+      if (step < answers.length) return answers[step++];
+
+      step++;
+      const curry = self.curried as unknown as (
+        ...params: any[]
+      ) => CurriedCallback<any, [any], Ctx>;
+      await ask(ctx, question, curry(...args, { [RESUME_KEY]: answers }), options);
+      throw flowSuspended;
+    }) as FlowAsk;
+
+    try {
+      await fn(ctx, askStep, ...args);
+    } catch (err) {
+      if (err !== flowSuspended) throw err;
+    }
+  };
+
+  // hash and name of the flow come from the flow function, not from this wrapper
+  run.toString = () => fn.toString();
+  Object.defineProperty(run, 'name', { value: fn.name });
+
+  return run as unknown as CallbackFunction<void, A, Ctx>;
+}
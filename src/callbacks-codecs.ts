@@ -0,0 +1,169 @@
+import assert from 'assert';
+import type { ParamCodec } from './callbacks-types';
+import { decodeCompact, encodeCompact } from './utils/compact';
+
+// Tagged values are stored as single-key objects: { "$<tag>": data }
+const TAG_PREFIX = '$';
+// Plain objects with `$` keys are escaped as { "$": object }
+const ESCAPE_KEY = '$';
+
+export const dateCodec: ParamCodec<Date, number> = {
+  tag: 'd',
+  is: (value): value is Date => value instanceof Date,
+  encode: (value) => value.getTime(),
+  decode: (data) => new Date(data),
+};
+
+export const bigintCodec: ParamCodec<bigint, string> = {
+  tag: 'n',
+  is: (value): value is bigint => typeof value === 'bigint',
+  encode: (value) => value.toString(),
+  decode: (data) => BigInt(data),
+};
+
+export const undefinedCodec: ParamCodec<undefined, 0> = {
+  tag: 'u',
+  is: (value): value is undefined => value === undefined,
+  encode: () => 0,
+  decode: () => undefined,
+};
+
+/**
+ * Create a codec storing string enum values as short tokens. Tokens are given explicitly, so
+ * reordering or adding enum members doesn't change meaning of buttons already sent.
+ *
+ * @example
+ * enumCodec<OrderStatus>('os', { [OrderStatus.Pending]: 'p', [OrderStatus.Shipped]: 's' });
+ *
+ * @param tag Unique codec tag
+ * @param tokens Token of every value, keep them unchanged between releases
+ */
+export function enumCodec<E extends string>(
+  tag: string,
+  tokens: Record<E, string | number>,
+): ParamCodec<E, string | number> {
+  const values = new Map<string | number, E>();
+  for (const [value, token] of Object.entries(tokens) as [E, string | number][]) {
+    assert(!values.has(token), `Duplicate token ${token} of enum codec ${tag}`);
+    values.set(token, value);
+  }
+
+  return {
+    tag,
+    is: (value): value is E => typeof value === 'string' && Object.hasOwn(tokens, value),
+    encode: (value) => tokens[value],
+    decode: (token) => {
+      const value = values.get(token);
+      if (value === undefined) throw new Error(`Unknown token ${token} of enum codec ${tag}`);
+      return value;
+    },
+  };
+}
+
+const codecs: ParamCodec[] = [dateCodec, bigintCodec, undefinedCodec];
+
+/**
+ * Register a codec for callback params, checked in registration order after built-in codecs
+ * @param codec The codec to register
+ */
+export function registerCodec(codec: ParamCodec): void {
+  assert(codec.tag && codec.tag !== ESCAPE_KEY, `Invalid codec tag "${codec.tag}"`);
+  assert(!findCodec(codec.tag), `Codec with tag ${codec.tag} already registered`);
+  codecs.push(codec);
+}
+
+function findCodec(tag: string) {
+  return codecs.find((codec) => codec.tag === tag);
+}
+
+function isPlainObject(value: object) {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Convert a param to JSON-compatible data
+ * @throws TypeError for values that can't be restored on the other side
+ */
+export function encodeParam(value: unknown): unknown {
+  const codec = codecs.find((codec) => codec.is(value));
+  if (codec) return { [TAG_PREFIX + codec.tag]: codec.encode(value) };
+
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  if (Array.isArray(value)) return value.map(encodeParam);
+
+  if (value && typeof value === 'object' && isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    let escape = false;
+    for (const [key, item] of Object.entries(value)) {
+      if (key.startsWith(TAG_PREFIX)) escape = true;
+      result[key] = encodeParam(item);
+    }
+    return escape ? { [ESCAPE_KEY]: result } : result;
+  }
+
+  const name = (value as any)?.constructor?.name ?? typeof value;
+  throw new TypeError(`Unsupported callback param ${String(value)} (${name}), register a codec`);
+}
+
+/**
+ * Restore a param from JSON-compatible data
+ */
+export function decodeParam(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(decodeParam);
+  if (!data || typeof data !== 'object') return data;
+
+  const keys = Object.keys(data);
+  const item = data as Record<string, unknown>;
+  if (keys.length === 1 && keys[0].startsWith(TAG_PREFIX)) {
+    if (keys[0] === ESCAPE_KEY) return decodeObject(item[ESCAPE_KEY] as Record<string, unknown>);
+
+    const codec = findCodec(keys[0].slice(TAG_PREFIX.length));
+    // objects like { "$oid": … } sent before codecs were added are plain data
+    if (codec) return codec.decode(item[keys[0]]);
+  }
+
+  return decodeObject(item);
+}
+
+function decodeObject(data: Record<string, unknown>) {
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(data)) {
+    result[key] = decodeParam(item);
+  }
+  return result;
+}
+
+/**
+ * Encode callback params to a JSON string
+ * @param params The params array
+ */
+export function encodeParams(params: unknown[]): string {
+  return JSON.stringify(params.map(encodeParam));
+}
+
+/**
+ * Decode callback params from a JSON string
+ * @param paramsJson The JSON string
+ */
+export function decodeParams(paramsJson: string): any[] {
+  return (JSON.parse(paramsJson) as unknown[]).map(decodeParam);
+}
+
+/**
+ * Encode callback params to a compact base64url string
+ * @param params The params array
+ */
+export function encodeParamsCompact(params: unknown[]): string {
+  return encodeCompact(params.map(encodeParam));
+}
+
+/**
+ * Decode callback params from a compact base64url string
+ * @param paramsData The base64url string
+ */
+export function decodeParamsCompact(paramsData: string): any[] {
+  return decodeCompact(paramsData).map(decodeParam);
+}
@@ -0,0 +1,92 @@
+import type { CallbackInfo, CallbackMiddleware } from './callbacks-types';
+import type { Context } from './lib-adapter';
+
+const MiddlewareSymbol = Symbol('callback-middleware');
+
+/**
+ * Attach middleware to a `cbs` node, it runs around every callback under it
+ *
+ * @example
+ * const handlers = cbs({
+ *   admin: withMiddleware(guard(isAdmin, '⛔ Admins only'), {
+ *     ban: async (ctx, userId: number) => { ... },
+ *   }),
+ * });
+ *
+ * @param middleware Middleware of the node, run in the given order after ones of parent nodes
+ * @param node Nested object of callbacks or a single callback
+ */
+export function withMiddleware<O extends object>(
+  middleware: CallbackMiddleware<any> | CallbackMiddleware<any>[],
+  node: O,
+): O {
+  const list = Array.isArray(middleware) ? middleware : [middleware];
+  Object.defineProperty(node, MiddlewareSymbol, {
+    value: [...getNodeMiddleware(node), ...list],
+    enumerable: false,
+    configurable: true,
+  });
+  return node;
+}
+
+/**
+ * Get middleware attached to a node with `withMiddleware`
+ */
+export function getNodeMiddleware(node: object): CallbackMiddleware<any>[] {
+  return (node as any)[MiddlewareSymbol] ?? [];
+}
+
+/**
+ * Create middleware that denies callbacks when the check fails.
+ * Button presses get the denial in an alert, direct calls in a reply.
+ * @param check Returns true if the callback may run
+ * @param denial Denial message
+ */
+export function guard<Ctx extends Context = Context>(
+  check: (ctx: Ctx, info: CallbackInfo) => boolean | Promise<boolean>,
+  denial = '⛔ Access denied',
+): CallbackMiddleware<Ctx> {
+  return async (ctx, next, info) => {
+    if (await check(ctx, info)) return await next();
+
+    if (!ctx.callbackQuery) {
+      await ctx.reply(denial);
+      return;
+    }
+
+    // answered here, the result is lost when the callback is called from another handler;
+    // the query may be answered already by that handler
+    await ctx.answerCallbackQuery({ text: denial, show_alert: true }).catch(() => {});
+    // truthy result keeps the denied press from the next middlewares
+    return true;
+  };
+}
+
+/**
+ * Run a callback through its middleware
+ * @param middleware Middleware in running order
+ * @param info The callback being run
+ * @param ctx The context
+ * @param run Runs the callback itself
+ */
+export async function runWithMiddleware<Ctx extends Context>(
+  middleware: CallbackMiddleware<Ctx>[],
+  info: CallbackInfo,
+  ctx: Ctx,
+  run: () => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) return await run();
+
+    let called = false;
+    const next = () => {
+      if (called) throw new Error(`next() called multiple times in middleware of ${info.hash}`);
+      called = true;
+      return dispatch(index + 1);
+    };
+    return await current(ctx, next, info);
+  };
+
+  return await dispatch(0);
+}
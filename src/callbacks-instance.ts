@@ -0,0 +1,32 @@
+import { setupCallbacks } from './callbacks-middleware';
+import { type CallbackRegistry, createRegistry, internalRegistry } from './callbacks-registry';
+import type { CallbacksOptions } from './callbacks-types';
+import type { Bot, Context } from './lib-adapter';
+
+/**
+ * Callbacks registry of one bot
+ */
+export interface BotCallbackRegistry extends CallbackRegistry {
+  /**
+   * Set up callbacks handling of the bot with this registry
+   */
+  setupCallbacks<Ctx extends Context>(bot: Bot<Ctx>, options?: CallbacksOptions<Ctx>): void;
+}
+
+/**
+ * Create a registry isolated from other bots in the process, callbacks of the default
+ * registry are not resolved in it. Pass it as `registry` option to `form` and `paginate` of the bot,
+ * the internal callback of `Button.back` is shared by all registries.
+ *
+ * @example
+ * const admin = createCallbackRegistry();
+ * const handlers = admin.cbs({ ban: async (ctx, userId: number) => { ... } });
+ * admin.setupCallbacks(adminBot);
+ */
+export function createCallbackRegistry(): BotCallbackRegistry {
+  const registry = createRegistry(internalRegistry);
+  return {
+    ...registry,
+    setupCallbacks: (bot, options) => setupCallbacks(bot, options, registry),
+  };
+}
@@ -0,0 +1,78 @@
+import type { LockingOptions, LockStorage } from './callbacks-types';
+import type { Context } from './lib-adapter';
+
+const DEFAULT_LOCK_TTL_MS = 60 * 1000;
+// expired locks are swept when there are more of them
+const MEMORY_SWEEP_SIZE = 1000;
+
+/**
+ * Create in-memory lock storage, locks are not shared between processes
+ */
+export function createMemoryLockStorage(): LockStorage {
+  const locks = new Map<string, number>();
+
+  return {
+    acquire(key, ttlMs) {
+      const now = Date.now();
+      if (locks.size > MEMORY_SWEEP_SIZE) {
+        for (const [lockKey, expiresAt] of locks) if (expiresAt <= now) locks.delete(lockKey);
+      }
+
+      if ((locks.get(key) ?? 0) > now) return false;
+      locks.set(key, now + ttlMs);
+      return true;
+    },
+
+    release(key, afterMs) {
+      if (afterMs && afterMs > 0) locks.set(key, Date.now() + afterMs);
+      else locks.delete(key);
+    },
+  };
+}
+
+/**
+ * Lock key of the press: user and the message, callback, or nothing else, depending on scope
+ */
+export function getLockKey(ctx: Context, hash: string, scope: LockingOptions['scope']): string {
+  const query = ctx.callbackQuery;
+  const userId = ctx.from?.id ?? '';
+  switch (scope ?? 'message') {
+    case 'callback':
+      return `${userId}:cb:${hash}`;
+    case 'user':
+      return `${userId}`;
+    default:
+      return query?.inline_message_id
+        ? `${userId}:im:${query.inline_message_id}`
+        : `${userId}:m:${query?.message?.chat.id}:${query?.message?.message_id}`;
+  }
+}
+
+/**
+ * Run the handler under the lock
+ * @returns false if the lock is taken and the handler was not run
+ */
+export async function runLocked(
+  storage: LockStorage,
+  key: string,
+  options: { ttlMs?: number; debounceMs: number },
+  handler: () => Promise<void>,
+): Promise<boolean> {
+  if (
+    !(await storage.acquire(
+      key,
+      Math.max(options.ttlMs ?? DEFAULT_LOCK_TTL_MS, options.debounceMs),
+    ))
+  ) {
+    return false;
+  }
+
+  const startedAt = Date.now();
+  try {
+    await handler();
+  } finally {
+    // keep the lock till the end of debounce window
+    await storage.release(key, options.debounceMs - (Date.now() - startedAt));
+  }
+  return true;
+}
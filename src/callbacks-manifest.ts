@@ -0,0 +1,57 @@
+import { type CallbackRegistry, defaultRegistry } from './callbacks-registry';
+
+/**
+ * JSON snapshot of the registry, to compare registered callbacks between releases
+ */
+export interface CallbacksManifest {
+  callbacks: Record<string, { path?: string; name: string; arity: number }>;
+  // legacy hashes mapped to current ones
+  aliases: Record<string, string>;
+}
+
+export interface CallbacksManifestDiff {
+  // hashes of the previous release nothing answers anymore, their buttons are broken
+  removed: string[];
+  added: string[];
+  // hashes whose arity changed, params of sent buttons may not match
+  changed: string[];
+}
+
+/**
+ * Create a manifest of registered callbacks, store it with every release
+ * @param registry The registry, the default one by default
+ */
+export function getCallbacksManifest(
+  registry: CallbackRegistry = defaultRegistry,
+): CallbacksManifest {
+  const manifest: CallbacksManifest = { callbacks: {}, aliases: {} };
+  for (const { hash, path, name, arity, aliases } of registry.listCallbacks()) {
+    manifest.callbacks[hash] = { path, name, arity };
+    for (const alias of aliases) manifest.aliases[alias] = hash;
+  }
+  return manifest;
+}
+
+/**
+ * Compare manifests of two releases
+ * @param previous Manifest of the previous release
+ * @param current Manifest of the current release, the registry by default
+ */
+export function diffCallbacksManifest(
+  previous: CallbacksManifest,
+  current: CallbacksManifest = getCallbacksManifest(),
+): CallbacksManifestDiff {
+  const answered = (hash: string) => hash in current.callbacks || hash in current.aliases;
+
+  return {
+    removed: [...Object.keys(previous.callbacks), ...Object.keys(previous.aliases)].filter(
+      (hash) => !answered(hash),
+    ),
+    added: Object.keys(current.callbacks).filter((hash) => !(hash in previous.callbacks)),
+    changed: Object.keys(current.callbacks).filter(
+      (hash) =>
+        hash in previous.callbacks &&
+        previous.callbacks[hash].arity !== current.callbacks[hash].arity,
+    ),
+  };
+}
@@ -1,11 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import {
   BotContextSymbol,
-  executeCallback,
+  type CallbackRegistry,
+  callbackDataFits,
+  defaultRegistry,
+  fitCallbackData,
+  getReplyKey,
   getSessionData,
-  handleText,
+  getSignedModifier,
+  isRecipient,
+  MAX_CALLBACK_DATA_LENGTH,
+  type ReplyScope,
+  storeCallbackData,
 } from './callbacks-registry';
-import { CallbackSessionData, CallbacksOptions } from './callbacks-types';
-import type { Bot, Context } from './lib-adapter';
+import { createMemoryLockStorage, getLockKey, runLocked } from './callbacks-locks';
+import { createSigner } from './callbacks-signing';
+import {
+  createMemorySessions,
+  markUsed,
+  pruneReply,
+  removeReplyScope,
+  resolveRetention,
+} from './callbacks-retention';
+import {
+  CallbackAnswer,
+  CallbackSessionData,
+  CallbacksOptions,
+  RetentionOptions,
+} from './callbacks-types';
+import type { Bot, Context, SessionFlavor } from './lib-adapter';
+import {
+  createMemoryMessageStateStorage,
+  getAttachedState,
+  getMessageKey,
+  loadMessageState,
+  setMessageState,
+} from './message-state';
 
 export function initialCallbackData(): CallbackSessionData {
   return {
@@ -15,73 +45,334 @@ export function initialCallbackData(): CallbackSessionData {
 }
 
 function isCallbackData(data?: string): data is string {
-  return typeof data === 'string' && (data.startsWith('_cb:') || data.startsWith('_ch:'));
+  return (
+    typeof data === 'string' &&
+    ['_cb:', '_cc:', '_ch:', '_cs:', '_ct:'].some((prefix) => data.startsWith(prefix))
+  );
+}
+
+function createDefaultGetSessionData(retention: Required<RetentionOptions>) {
+  const memorySessions = createMemorySessions(retention.maxMemorySessions, initialCallbackData);
+
+  return (ctx: any): CallbackSessionData => {
+    const fromId = ctx.from?.id;
+    if (!fromId)
+      throw new Error('Cannot get session data from context without fromId, dont use it there'); // like for updates
+
+    return ctx.session ? ctx.session : memorySessions(fromId);
+  };
 }
 
-const sessionCache: Record<number, CallbackSessionData> = {};
-function defaultGetSessionData(ctx: any): CallbackSessionData {
-  const fromId = ctx.from?.id;
-  if (!fromId)
-    throw new Error('Cannot get session data from context without fromId, dont use it there'); // like for updates
+/**
+ * Get the update context of an API call to the given chat
+ * @returns undefined outside of update handling, or for calls to another chat
+ */
+function getCallContext<Ctx extends Context>(
+  contextStorage: AsyncLocalStorage<Ctx>,
+  chatId: number | string | undefined,
+): Ctx | undefined {
+  const ctx = contextStorage.getStore();
+  if (!ctx || chatId === undefined) return ctx;
+
+  // API calls are matched by chat, it is the user in private chats
+  return String(ctx.chat?.id ?? ctx.from?.id) === String(chatId) ? ctx : undefined;
+}
+
+/**
+ * Move signable callback data to session, even if it fits unsigned: unsigned data is rejected
+ * @returns `_ch:` session reference
+ */
+function storeSignable(ctx: Context | undefined, callbackData: string): string {
+  if (!ctx) {
+    throw new Error(
+      `Signed callback data "${callbackData.slice(0, 40)}…" exceeds ${MAX_CALLBACK_DATA_LENGTH} bytes ` +
+        'and no session context is available to store it, send the message inside an update handler',
+    );
+  }
+
+  const stored = storeCallbackData(ctx as Context & SessionFlavor<any>, callbackData);
+  // data without params stays as-is, its hash is too long to sign
+  if (stored === callbackData) {
+    throw new Error(
+      `Signed callback data "${callbackData}" exceeds ${MAX_CALLBACK_DATA_LENGTH} bytes`,
+    );
+  }
+  return stored;
+}
 
-  return ctx.session ? ctx.session : (sessionCache[fromId] ??= initialCallbackData());
+function isCallbackAnswer(value: unknown): value is CallbackAnswer {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    ['toast', 'alert', 'url'].some((key) => typeof (value as any)[key] === 'string')
+  );
 }
 
+function toAnswerOptions(result: unknown) {
+  if (!isCallbackAnswer(result)) return undefined;
+  if ('url' in result) return { url: result.url };
+  if ('alert' in result) return { text: result.alert, show_alert: true };
+  return { text: result.toast };
+}
+
+export interface ExpiredButtonOptions {
+  // toast text
+  text?: string;
+  // remove inline keyboard of the message with the expired button
+  removeKeyboard?: boolean;
+}
+
+/**
+ * Create handler of unknown callbacks answering with a toast, default for `onUnknownCallback`
+ * @param options Toast text and keyboard removal
+ */
+export function expiredButtonHandler(options?: ExpiredButtonOptions) {
+  return async (ctx: Context): Promise<void> => {
+    await ctx.answerCallbackQuery({ text: options?.text ?? '⌛ This button has expired' });
+    if (options?.removeKeyboard && ctx.callbackQuery?.message) {
+      // message may be too old to edit
+      await ctx.editMessageReplyMarkup().catch(() => {});
+    }
+  };
+}
+
+/**
+ * Remove the pressed button from inline keyboard of its message
+ */
+async function removePressedButton(ctx: Context) {
+  const query = ctx.callbackQuery;
+  const markup = query?.message?.reply_markup;
+  if (!markup) return;
+
+  const inline_keyboard = markup.inline_keyboard
+    .map((row) =>
+      row.filter((button) => !('callback_data' in button && button.callback_data === query.data)),
+    )
+    .filter((row) => row.length);
+  // message may be too old to edit
+  await ctx
+    .editMessageReplyMarkup(
+      inline_keyboard.length ? { reply_markup: { inline_keyboard } } : undefined,
+    )
+    .catch(() => {});
+}
+
+/**
+ * Set up callbacks handling for the bot
+ * @param bot The bot
+ * @param options Callbacks options
+ * @param registry Registry of the bot callbacks, see `createCallbackRegistry`
+ */
 export function setupCallbacks<Ctx extends Context>(
   bot: Bot<Ctx>,
   options?: CallbacksOptions<Ctx>,
+  registry: CallbackRegistry = defaultRegistry,
 ): void {
-  const contextCache: Record<number, Ctx> = ((bot as any).contextCache = {});
-  const _getSessionData = options?.getSessionData ?? defaultGetSessionData;
+  // context of the update being handled, follows API calls even if they are not awaited
+  const contextStorage = new AsyncLocalStorage<Ctx>();
+  const retention = resolveRetention(options?.retention);
+  const _getSessionData = options?.getSessionData ?? createDefaultGetSessionData(retention);
+  const signer = options?.signing && createSigner(options.signing);
+  const onUnknownCallback = options?.onUnknownCallback ?? expiredButtonHandler();
+  const errorText = options?.errorText ?? '⚠️ Something went wrong, please try again';
+  const lockStorage = options?.locking?.storage ?? createMemoryLockStorage();
+  const singleUse = options?.singleUse;
+  const messageStates = options?.messageStateStorage ?? createMemoryMessageStateStorage();
+  // callback queries answered while handling, by handlers or the middleware itself
+  const answered = new WeakSet<Ctx>();
 
   bot.api.config.use(async (call, method, payload: any, signal) => {
-    if (payload.reply_markup?.keyboard) {
-      const ctx = contextCache[payload.chat_id];
-      if (ctx) {
-        const buttons = payload.reply_markup.keyboard.flat();
-        buttons.forEach((button: any) => {
-          const data = button._callback_data || button.callback_data;
-          if (data) {
-            getSessionData(ctx).reply[button.text] = data;
-            delete button._callback_data;
-            delete button.callback_data;
+    if (method === 'answerCallbackQuery') {
+      const ctx = contextStorage.getStore();
+      if (ctx && ctx.callbackQuery?.id === payload.callback_query_id) answered.add(ctx);
+    }
+
+    // read before the markup is copied below
+    const attached = getAttachedState(payload.reply_markup);
+
+    // markup is copied, so keyboards and buttons can be reused for other messages
+    if (payload.reply_markup?.inline_keyboard) {
+      const ctx = getCallContext(contextStorage, payload.chat_id);
+      const inline_keyboard = payload.reply_markup.inline_keyboard.map((row: any[]) =>
+        row.map((original: any) => {
+          const button = { ...original };
+          delete button._callback_data;
+          const data = button.callback_data;
+          const modifier = !signer && isCallbackData(data) && getSignedModifier(data);
+          if (modifier) {
+            throw new Error(
+              `Button "${button.text}" is made with ${modifier}(), enable signing in setupCallbacks, ` +
+                'otherwise users can strip it from its callback data',
+            );
           }
-        });
-      } else {
+          if (signer && signer.canSign(data)) {
+            // presses are verified against numeric `ctx.chat.id`, usernames never match it
+            if (typeof payload.chat_id === 'string') {
+              throw new Error(
+                `Button "${button.text}" can't be signed for chat ${payload.chat_id}, ` +
+                  'send signed buttons to numeric chat ids',
+              );
+            }
+            const signed = signer.sign(data, payload.chat_id);
+            // signed data is too long - keep params in session, it can't be forged there
+            button.callback_data = callbackDataFits(signed) ? signed : storeSignable(ctx, data);
+          } else if (isCallbackData(data)) {
+            button.callback_data = fitCallbackData(ctx, data);
+          }
+          return button;
+        }),
+      );
+      payload = { ...payload, reply_markup: { ...payload.reply_markup, inline_keyboard } };
+    }
+
+    if (payload.reply_markup?.keyboard || payload.reply_markup?.remove_keyboard) {
+      const ctx = getCallContext(contextStorage, payload.chat_id);
+      if (ctx) {
+        const sessionData = getSessionData(ctx);
+        const scope: ReplyScope = {
+          chatId: payload.chat_id,
+          threadId: payload.message_thread_id,
+          // selective keyboard is shown to the user the bot replies to
+          userId: payload.reply_markup.selective ? ctx.from?.id : undefined,
+        };
+        // new keyboard replaces the old one of the same scope
+        removeReplyScope(sessionData, getReplyKey('', scope));
+
+        if (payload.reply_markup.keyboard) {
+          const keyboard = payload.reply_markup.keyboard.map((row: any[]) =>
+            row.map(({ _callback_data, callback_data, ...button }: any) => {
+              const data = _callback_data || callback_data;
+              // reply buttons send their text, there is no nonce to take
+              if (data && getSignedModifier(data) === 'once') {
+                throw new Error(
+                  `Button "${button.text}" is made with once(), only inline buttons can be single-use`,
+                );
+              }
+              if (data) sessionData.reply[getReplyKey(button.text, scope)] = data;
+              return button;
+            }),
+          );
+          payload = { ...payload, reply_markup: { ...payload.reply_markup, keyboard } };
+          pruneReply(sessionData, retention);
+        }
+      } else if (payload.reply_markup.keyboard) {
         console.warn(
-          `Context not found for chat ${payload.chat_id}, maybe you forgot to await api operation`,
+          `Context not found for chat ${payload.chat_id}, send reply keyboards while handling updates of this chat`,
         );
       }
     }
 
-    return await call(method, payload, signal);
+    const result = await call(method, payload, signal);
+
+    if (attached && attached.state !== undefined && result.ok) {
+      // edits of inline messages return true, edits of others may too in tests
+      const message =
+        typeof result.result === 'object'
+          ? (result.result as any)
+          : { chat: { id: payload.chat_id }, message_id: payload.message_id };
+      // every message gets its own copy, markup may be sent many times
+      const state = JSON.parse(JSON.stringify(attached.state));
+      const ctx = getCallContext(contextStorage, message.chat.id);
+      if (message.message_id) {
+        // handlers of the pressed message see the new state
+        if (ctx) await setMessageState(ctx, message, state);
+        else await messageStates.write(getMessageKey(message), state);
+      }
+    }
+    return result;
   });
 
   bot.use(async (ctx, next) => {
     const fromId = ctx.from?.id;
     if (!fromId) return next();
 
-    contextCache[fromId] = ctx;
     (ctx as any)._getSessionData = _getSessionData;
+    (ctx as any)._retention = retention;
+    (ctx as any)._registry = registry;
 
     const ctxData = getSessionData(ctx);
     if (!ctxData.reply) Object.assign(ctxData, initialCallbackData());
 
     Object.defineProperty(ctx, BotContextSymbol, { value: true, enumerable: false });
-    await next();
-
-    // save context for 1 minute to wait for reply messages, if it was not awaited
-    setTimeout(() => {
-      if (contextCache[fromId] === ctx) delete contextCache[fromId];
-    }, 60000);
+    const saveMessageState = await loadMessageState(ctx, messageStates);
+    await contextStorage.run(ctx, next);
+    await saveMessageState();
   });
 
-  bot.on('message:text', handleText);
+  bot.on('message:text', registry.handleText);
 
   bot.on('callback_query', async (ctx, next) => {
-    const callbackData = ctx.callbackQuery.data;
+    let callbackData = ctx.callbackQuery.data;
 
-    if (isCallbackData(callbackData) && (await executeCallback(ctx, callbackData))) return;
+    if (signer && isCallbackData(callbackData)) {
+      const verified = signer.verify(ctx, callbackData);
+      if (!verified) {
+        if (options?.signing?.onRejected) await options.signing.onRejected(ctx, callbackData);
+        else await ctx.answerCallbackQuery('⚠️ This button is not valid');
+        return;
+      }
+      callbackData = verified;
+    }
+
+    if (isCallbackData(callbackData)) {
+      // button of a removed callback or of params dropped from session
+      const resolved = registry.resolveCallback(ctx, callbackData);
+      if (!resolved) {
+        await onUnknownCallback(ctx, callbackData);
+        return;
+      }
+
+      if (!isRecipient(ctx, resolved)) {
+        await ctx.answerCallbackQuery(options?.notRecipientText ?? '🙅 This button is not for you');
+        return;
+      }
+
+      // takes single-use button, false if it was used already
+      const useButton = async (nonce: string) => {
+        const key = `${resolved.hash}!${nonce}`;
+        const ttlMs = singleUse?.ttlMs ?? retention.paramsTtlMs;
+        const used = singleUse?.storage
+          ? await singleUse.storage.acquire(key, ttlMs)
+          : markUsed(getSessionData(ctx), key, ttlMs, retention);
+        if (used && singleUse?.removeButton !== false) await removePressedButton(ctx);
+        return used;
+      };
+
+      const execute = async () => {
+        if (resolved.nonce && !(await useButton(resolved.nonce))) {
+          if (singleUse?.onUsed) await singleUse.onUsed(ctx, callbackData);
+          else await ctx.answerCallbackQuery('✔️ This button has already been used');
+          return;
+        }
+
+        try {
+          const result = await registry.executeCallback(ctx, callbackData);
+          // falsy result passes the query on, the answer waits for the rest of middlewares
+          if (!result) await next();
+          if (options?.autoAnswer !== false && !answered.has(ctx)) {
+            await ctx.answerCallbackQuery(toAnswerOptions(result));
+          }
+        } catch (error) {
+          if (errorText !== false && !answered.has(ctx)) {
+            await ctx.answerCallbackQuery(errorText).catch(() => {});
+          }
+          throw error;
+        }
+      };
+
+      const locking = options?.locking;
+      const debounceMs = resolved.callback.debounceMs ?? locking?.debounceMs ?? 0;
+      if (!locking && !debounceMs) return await execute();
+
+      const lockKey = getLockKey(ctx, resolved.hash, locking?.scope);
+      const lockOptions = { ttlMs: locking?.ttlMs, debounceMs };
+      if (!(await runLocked(lockStorage, lockKey, lockOptions, execute))) {
+        // double press while the handler runs
+        const busyText = locking?.busyText ?? '⏳ Please wait…';
+        await ctx.answerCallbackQuery(busyText === false ? undefined : busyText);
+      }
+      return;
+    }
 
     await next();
   });
@@ -1,16 +1,40 @@
 import assert from 'assert';
+import { getNodeMiddleware, runWithMiddleware } from './callbacks-compose';
+import { getRetention, pruneParams, touchParams } from './callbacks-retention';
+import { stripSignature } from './callbacks-signing';
+import { popScreen, pushScreen } from './navigation';
 import {
+  decodeParams,
+  decodeParamsCompact,
+  encodeParams,
+  encodeParamsCompact,
+} from './callbacks-codecs';
+import {
+  type CallbackButton,
   CallbackFunction,
   CallbackFunctionEx,
+  type CallbackOptions,
   type CallbackSessionData,
   CurriedCallback,
+  type ParamsEncoding,
+  type ReplyCallbackButton,
 } from './callbacks-types';
-import type { Context, InlineKeyboardButton, KeyboardButton } from './lib-adapter';
+import type { Context } from './lib-adapter';
 import { SessionFlavor } from './lib-adapter';
 import { md5Hex } from './utils/md5';
+import { randomBase64Url } from './utils/random';
 
-// Global registry for callbacks
-const callbacksRegistry: Record<string, CallbackFunction<any, any[], any>> = {};
+// Params format for callbacks registered without explicit encoding
+let defaultEncoding: ParamsEncoding = 'json';
+
+/**
+ * Set params format for callbacks registered without explicit encoding.
+ * Buttons already sent keep working, both formats are always decoded.
+ * @param encoding The params encoding
+ */
+export function setDefaultEncoding(encoding: ParamsEncoding): void {
+  defaultEncoding = encoding;
+}
 
 /**
  * Calculate a hash for a function
@@ -25,15 +49,47 @@ function calculateFunctionHash(fn: Function): string {
     : fnHash.slice(12);
 }
 
+// Recipients are appended to the hash: `<hash>@<id>,<id>`, ids in base36
+const RECIPIENTS_SEPARATOR = '@';
+// Nonce of single-use button goes last: `<hash>[@<ids>]!<nonce>`
+const NONCE_SEPARATOR = '!';
+
+function withRecipients(hash: string, recipients?: number[]) {
+  if (!recipients?.length) return hash;
+  return hash + RECIPIENTS_SEPARATOR + recipients.map((id) => id.toString(36)).join(',');
+}
+
+function splitRecipients(hashWithRecipients: string): [string, number[] | undefined] {
+  const idx = hashWithRecipients.lastIndexOf(RECIPIENTS_SEPARATOR);
+  const ids = hashWithRecipients.slice(idx + 1);
+  if (idx === -1 || !/^[0-9a-z,]+$/.test(ids)) return [hashWithRecipients, undefined];
+
+  return [hashWithRecipients.slice(0, idx), ids.split(',').map((id) => parseInt(id, 36))];
+}
+
+function splitNonce(hashWithNonce: string): [string, string | undefined] {
+  const idx = hashWithNonce.lastIndexOf(NONCE_SEPARATOR);
+  const nonce = hashWithNonce.slice(idx + 1);
+  if (idx === -1 || !/^[\w-]+$/.test(nonce)) return [hashWithNonce, undefined];
+
+  return [hashWithNonce.slice(0, idx), nonce];
+}
+
 function toCallbackData(this: CallbackFunctionEx<any>) {
-  const hash = this.origin.hash;
+  let hash = withRecipients(this.origin.hash!, this.recipients);
+  // every button of single-use callback gets its own nonce
+  if (this.singleUse) hash += NONCE_SEPARATOR + randomBase64Url(4);
   // Create a compact callback data string
   if (!this.params || this.params.length === 0) {
     return `_cb:${hash}`;
   }
 
-  // For parameters, create a shorter representation
-  const paramsStr = JSON.stringify(this.params);
+  // For parameters, create a shorter representation, throws on params that can't be encoded
+  if ((this.origin.encoding ?? defaultEncoding) === 'compact') {
+    return `_cc:${hash}:${encodeParamsCompact(this.params)}`;
+  }
+
+  const paramsStr = encodeParams(this.params);
 
   const result = `_cb:${hash}:${paramsStr}`;
 
@@ -46,58 +102,87 @@ export function isCtx(ctx: Context) {
   return !!ctx && typeof ctx === 'object' && BotContextSymbol in ctx;
 }
 
+// Button modifiers kept by curried callbacks
+type CurriedModifiers = Pick<CallbackFunctionEx<any>, 'recipients' | 'singleUse'>;
+
 function createCurried<R, T extends any[], Ctx extends Context>(
   parent: CallbackFunctionEx<R, T, Ctx>,
   accumulatedParams?: any[],
+  modifiers: CurriedModifiers = {},
 ): CurriedCallback<R, T, Ctx> {
   const curried = ((...args: any[]) => {
     // Check if first argument is a CallbackContext
     if (isCtx(args[0])) {
       const ctx = args.shift() as Ctx;
+      // run as grammy middleware, like `bot.command('start', handlers.home())`: drop `next`
+      if (args.length === 1 && typeof args[0] === 'function') args.pop();
 
       const params = curried.params ? curried.params.concat(args) : args;
 
       getSessionData(ctx).lastHash = parent.origin.hash;
-      return parent.origin(ctx, ...(params as T));
+      return invokeCallback(parent.origin, ctx, params) as Promise<R>;
     } else {
       // No ctx provided, accumulate parameters and return new curried function
       const params = curried.params ? curried.params.concat(args) : args;
-      return createCurried(parent, params);
+      return createCurried(parent, params, modifiers);
     }
   }) as CallbackFunctionEx<R, T, Ctx>;
   // Add properties
   curried.origin = parent.origin;
   curried.params = accumulatedParams;
+  curried.recipients = modifiers.recipients;
+  curried.singleUse = modifiers.singleUse;
+  curried.onlyFor = (userIds: number | number[]) =>
+    createCurried(parent, curried.params, {
+      ...modifiers,
+      recipients: ([] as number[]).concat(userIds),
+    });
+  curried.once = () => createCurried(parent, curried.params, { ...modifiers, singleUse: true });
   curried.toCallbackData = toCallbackData;
-  curried.button = (text: string) => Button.cb(text, curried);
+  curried.button = (text: string, ctx?: Context) => Button.cb(text, curried, ctx);
 
   return curried as unknown as CurriedCallback<R, T, Ctx>;
 }
 
 /**
- * Register a callback function and return a curried function that accumulates parameters
- * @param callback The callback function to register
- * @returns A curried function that accumulates params until ctx is provided
+ * Record screen callback in navigation history of the user
  */
-export function cb<R, T extends any[], Ctx extends Context>(
-  callback: CallbackFunction<R, T, Ctx>,
-): CurriedCallback<R, T, Ctx> {
-  const hash = calculateFunctionHash(callback);
-
-  // Register the callback in the global registry
-  callbacksRegistry[hash] = callback as CallbackFunction<any, any[], any>;
+function recordScreen(ctx: Context, origin: CallbackFunctionEx<any, any[], any>, params: any[]) {
+  let screenData: string;
+  try {
+    screenData = createCurried(origin, params).toCallbackData();
+  } catch {
+    // params passed directly may be not encodable, the screen can't be shown again then
+    return;
+  }
+  const maxDepth = getRetention(ctx).maxNavigationDepth;
+  pushScreen(getSessionData(ctx), screenData, origin.screen === 'root', maxDepth);
+}
 
-  const cbEx = callback as CallbackFunctionEx<R, T, Ctx>;
-  cbEx.origin = cbEx as CallbackFunctionEx<R, T>;
-  cbEx.hash = hash;
+/**
+ * Run a registered callback with its middleware
+ */
+function invokeCallback<Ctx extends Context>(
+  origin: CallbackFunctionEx<any, any[], Ctx>,
+  ctx: Ctx,
+  params: any[],
+): Promise<unknown> {
+  const run = () => {
+    // screens refused by middleware, like guards, don't get into history
+    if (origin.screen) recordScreen(ctx, origin, params);
+    return origin(ctx, ...params);
+  };
+  if (!origin.middleware?.length) return run();
 
-  return createCurried(cbEx) as CurriedCallback<R, T, Ctx>;
+  const info = { hash: origin.hash!, path: origin.path, params };
+  return runWithMiddleware(origin.middleware, info, ctx, run);
 }
 
 // use callstack to get the function name that registered the callback
 function getRegistrationFile() {
   const lines = new Error().stack!.split('\n');
-  const idx = lines.findIndex((line) => line.includes('at cbs ('))!;
+  // `cbs` of the default registry or `registry.cbs` of an instance, hashes of the first must not change
+  const idx = lines.findIndex((line) => /at (Object\.)?cbs \(/.test(line));
   if (idx === -1) return '';
 
   const nextLine = lines[idx + 1];
@@ -118,8 +203,13 @@ const MAX_HASH_LENGTH = 30;
  *
  * @param fn   The callback function.
  * @param path The dot-separated path to the function in the source object.
+ * @param isTaken Check if the hash is used by another callback.
  */
-function calculateFunctionHashWithPath(fn: Function, path: string): string {
+function calculateFunctionHashWithPath(
+  fn: Function,
+  path: string,
+  isTaken: (hash: string) => boolean,
+): string {
   const name = getRegistrationFile() + '.' + (path || fn.name);
   const hash = md5Hex(name);
   // Keep the first part readable (function name truncated) and add md5 suffix for uniqueness
@@ -128,7 +218,7 @@ function calculateFunctionHashWithPath(fn: Function, path: string): string {
     : hash.slice(0, MAX_HASH_LENGTH);
 
   // generate new, if changed
-  if (callbacksRegistry[result]) return calculateFunctionHashWithPath(fn, name + '1');
+  if (isTaken(result)) return calculateFunctionHashWithPath(fn, name + '1', isTaken);
 
   return result;
 }
@@ -148,96 +238,81 @@ export type DeepCurried<T, Ctx extends Context = Context> =
         : T;
 
 /**
- * Deep version of `cb` — accepts a nested object where each leaf value is a
- * callback function and returns a new object of the same shape with all
- * callbacks converted to curried versions. Hashes are generated using both the
- * property path inside the object and the function name to guarantee
- * uniqueness.
- *
- * @example
- * const callbacks = cbs({
- *   shop: {
- *     open: async (ctx) => { ... },
- *     close: async (ctx) => { ... },
- *   },
- *   user: {
- *     settings: {
- *       show: async (ctx, id) => { ... },
- *     },
- *   },
- * });
- *
- * callbacks.shop.open(ctx) //⇒ executes and registers automatically
+ * Parts of callback data, with session-stored params loaded
  */
-export function cbs<O extends Record<string, any>, Ctx extends Context = Context>(
-  callbacksObj: O,
-): DeepCurried<O, Ctx> {
-  const walk = (obj: any, parentPath = ''): any => {
-    if (typeof obj === 'function') {
-      const path = parentPath.replace(/^\./, ''); // remove leading dot
-      const hash = calculateFunctionHashWithPath(obj, path);
-
-      assert(!callbacksRegistry[hash], `Callback with hash ${hash} already registered`);
-      // register in global registry
-      callbacksRegistry[hash] = obj as CallbackFunction<any, any[], any>;
-
-      const cbEx = obj as CallbackFunctionEx<any, any[], any>;
-      cbEx.origin = cbEx;
-      cbEx.hash = hash;
-
-      return createCurried(cbEx);
-    }
-
-    if (obj && typeof obj === 'object') {
-      const result: any = Array.isArray(obj) ? [] : {};
-      for (const key of Object.keys(obj)) {
-        const value = obj[key];
-        const childPath = parentPath ? `${parentPath}.${key}` : key;
-        result[key] = walk(value, childPath);
-      }
-      return result;
-    }
-
-    // primitives are returned as-is
-    return obj;
-  };
+interface ParsedCallbackData {
+  hash: string;
+  paramsJson?: string;
+  encoding: ParamsEncoding;
+  // key of callback data stored in session, for `_ch:` data
+  sessionHash?: string;
+  // users allowed to press the button, anyone if undefined
+  recipients?: number[];
+  // nonce of single-use button
+  nonce?: string;
+}
 
-  return walk(callbacksObj) as DeepCurried<O, Ctx>;
+/**
+ * Callback data resolved to the registered callback
+ */
+export interface ResolvedCallback extends ParsedCallbackData {
+  callback: CallbackFunctionEx<any, any[], any>;
 }
 
 /**
- * Execute a callback with the given callback data and context
- * @param callbackData The callback data string
- * @param ctx The Telegram router context
+ * Split callback data into parts, load params of `_ch:` data from session
+ * @returns undefined for session data without ctx or with dropped entry
  */
-export async function executeCallback(
-  ctx: Context,
+function parseCallbackData(
+  ctx: Context | undefined,
   callbackData: string,
-  ...args: any[]
-): Promise<any> {
+): ParsedCallbackData | undefined {
   const [prefix, initialHash, initialParamsJson] = splitCallbackData(callbackData);
   let hash = initialHash;
   let paramsJson = initialParamsJson;
+  let encoding: ParamsEncoding = prefix === '_cc' ? 'compact' : 'json';
+  let sessionHash: string | undefined;
 
   // session hash with params
   if (prefix === '_ch') {
-    const sessionData = getSessionData(ctx).params[hash];
-    if (!sessionData) {
-      throw new Error(`Session callback ${hash} not found`);
-    }
+    const sessionData = ctx && getSessionData(ctx).params[hash];
+    if (!sessionData) return undefined;
 
+    sessionHash = hash;
     hash = sessionData.hash;
     paramsJson = sessionData.params;
+    encoding = sessionData.encoding ?? 'json';
   }
 
-  const callback = callbacksRegistry[hash];
-  if (!callback) {
-    throw new Error(`Callback ${hash} not found in registry`);
-  }
+  // buttons bound with `onlyFor` carry user ids after the hash, single-use ones their nonce
+  const [hashWithRecipients, nonce] = splitNonce(hash);
+  const [callbackHash, recipients] = splitRecipients(hashWithRecipients);
+  return { hash: callbackHash, paramsJson, encoding, sessionHash, recipients, nonce };
+}
 
-  // Parse and apply parameters
-  const params = paramsJson ? JSON.parse(paramsJson) : [];
-  return await callback(ctx, ...params, ...args);
+/**
+ * Registered callback, as listed by `listCallbacks`
+ */
+export interface CallbackEntry {
+  hash: string;
+  // dot-separated path inside `cbs` object, undefined for `cb`
+  path?: string;
+  name: string;
+  // number of params after ctx, params with default values are not counted
+  arity: number;
+  // legacy hashes registered with `aliasCallbacks`
+  aliases: string[];
+}
+
+export interface DecodedCallbackData {
+  // current hash, legacy ones are resolved through aliases
+  hash: string;
+  // undefined for removed callbacks
+  callback?: CallbackEntry;
+  params: any[];
+  sessionHash?: string;
+  recipients?: number[];
+  nonce?: string;
 }
 
 /**
@@ -252,23 +327,63 @@ export function isCurriedCallback(filter: any): filter is CurriedCallback<any> {
 export const getSessionData = (ctx: Context): CallbackSessionData =>
   (ctx as any)._getSessionData(ctx);
 
-export async function handleText(ctx: Context, next: () => Promise<void>): Promise<void> {
-  const text = ctx.message?.text;
-  if (!text) {
-    return next();
-  }
+/**
+ * Scope of reply keyboard mapping, reply keyboards are shown to the whole chat or forum topic,
+ * selective ones only to the given user
+ */
+export interface ReplyScope {
+  chatId?: number | string;
+  threadId?: number;
+  userId?: number;
+}
 
-  // Check if text matches any registered reply callback
-  const callbackData = getSessionData(ctx).reply[text];
-  if (callbackData) {
-    const executed = await executeCallback(ctx, callbackData);
-    if (executed !== false) {
-      return; // Callback was executed successfully
-    }
-  }
+/**
+ * Key of reply keyboard button mapping in session: `<chat>[/<topic>][:<user>]|<text>`
+ * @param text Button text
+ * @param scope Chat, forum topic and user of the keyboard
+ */
+export function getReplyKey(text: string, scope: ReplyScope): string {
+  const thread = scope.threadId ? `/${scope.threadId}` : '';
+  const user = scope.userId ? `:${scope.userId}` : '';
+  return `${scope.chatId ?? ''}${thread}${user}|${text}`;
+}
+
+/**
+ * Find callback data of a pressed reply keyboard button
+ */
+function findReplyCallbackData(ctx: Context, text: string): string | undefined {
+  const reply = getSessionData(ctx).reply;
+  const scope: ReplyScope = {
+    chatId: ctx.chat?.id,
+    threadId: ctx.message?.is_topic_message ? ctx.message.message_thread_id : undefined,
+  };
+
+  return (
+    // selective keyboard of this user
+    reply[getReplyKey(text, { ...scope, userId: ctx.from?.id })] ??
+    // keyboard of the chat or topic
+    reply[getReplyKey(text, scope)] ??
+    // mapping stored before scopes were added
+    reply[text]
+  );
+}
+
+/**
+ * Get modifier of callback data sent to the client that it can strip unless the data is signed:
+ * recipients of `onlyFor` or nonce of `once`
+ */
+export function getSignedModifier(callbackData: string): 'onlyFor' | 'once' | undefined {
+  const [, hash] = splitCallbackData(callbackData);
+  const [hashWithRecipients, nonce] = splitNonce(hash);
+  if (splitRecipients(hashWithRecipients)[1]) return 'onlyFor';
+  return nonce ? 'once' : undefined;
+}
 
-  // If no callback was found or execution failed, continue with normal processing
-  return next();
+/**
+ * Check if the user of the context may press the button of resolved callback
+ */
+export function isRecipient(ctx: Context, resolved: ResolvedCallback): boolean {
+  return !resolved.recipients || resolved.recipients.includes(ctx.from?.id ?? NaN);
 }
 
 /**
@@ -284,6 +399,42 @@ function splitCallbackData(callbackData: string): [string, string, string | unde
   return [prefix, hash, paramsJson || undefined];
 }
 
+/**
+ * Telegram limit for inline button `callback_data`, in bytes
+ */
+export const MAX_CALLBACK_DATA_LENGTH = 64;
+
+/**
+ * Check if callback data fits into Telegram's `callback_data` limit
+ * @param callbackData The callback data string
+ */
+export function callbackDataFits(callbackData: string): boolean {
+  return Buffer.byteLength(callbackData, 'utf8') <= MAX_CALLBACK_DATA_LENGTH;
+}
+
+/**
+ * Make callback data fit into Telegram's limit, moving params into session when needed
+ * @param ctx The context with session, if any
+ * @param callbackData The callback data string
+ * @returns Callback data as-is, or a `_ch:` session reference
+ */
+export function fitCallbackData(ctx: Context | undefined, callbackData: string): string {
+  if (callbackDataFits(callbackData)) return callbackData;
+
+  if (!ctx) {
+    throw new Error(
+      `Callback data "${callbackData.slice(0, 40)}…" exceeds ${MAX_CALLBACK_DATA_LENGTH} bytes ` +
+        'and no session context is available to store it, send the message inside an update handler',
+    );
+  }
+
+  const stored = storeCallbackData(ctx as Context & SessionFlavor<any>, callbackData);
+  if (!callbackDataFits(stored)) {
+    throw new Error(`Callback data "${stored}" exceeds ${MAX_CALLBACK_DATA_LENGTH} bytes`);
+  }
+  return stored;
+}
+
 /**
  * Generate a short hash for storing callback data in session
  * @param params The parameters string
@@ -303,33 +454,429 @@ export function storeCallbackData<Ctx extends Context & SessionFlavor<any>>(
   ctx: Ctx,
   cbData: string,
 ): string {
-  const [, hash, paramsJson] = splitCallbackData(cbData);
+  const [prefix, hash, paramsJson] = splitCallbackData(cbData);
 
   if (!paramsJson) {
     return cbData; // No params, return as-is
   }
 
-  const sessionHash = generateHash(paramsJson);
-  getSessionData(ctx).params[sessionHash] = { hash, params: paramsJson };
+  // same params of different callbacks must not share the entry
+  const sessionHash = generateHash(`${hash}:${paramsJson}`);
+  const sessionData = getSessionData(ctx);
+  // re-insert to move the entry to the end of eviction order
+  delete sessionData.params[sessionHash];
+  sessionData.params[sessionHash] =
+    prefix === '_cc'
+      ? { hash, params: paramsJson, encoding: 'compact', usedAt: Date.now() }
+      : { hash, params: paramsJson, usedAt: Date.now() };
+  pruneParams(sessionData, getRetention(ctx));
 
   return `_ch:${sessionHash}`;
 }
 
-export function bindCb<Ctx extends Context>() {
-  return <R, T extends any[]>(callback: CallbackFunction<R, T, Ctx>) => cb(callback);
-}
-
 export type DeepCallbacksObj<Ctx extends Context = Context> =
   | ((ctx: Ctx, ...args: any[]) => any)
   | { [key: string]: DeepCallbacksObj<Ctx> }
   | DeepCallbacksObj<Ctx>[];
 
 /**
- * Bind callbacks object with a specific context type
- * @returns A function that can convert callback objects to curried versions
+ * Callbacks registry: registered callbacks and their legacy hashes
  */
-export function bindCbs<Ctx extends Context>() {
-  return cbs as <O extends DeepCallbacksObj<Ctx>>(callbacksObj: O) => DeepCurried<O, Ctx>;
+export interface CallbackRegistry {
+  /**
+   * Register a callback function and return a curried function that accumulates parameters.
+   * Without explicit id the hash comes from the function source, so editing the function
+   * breaks buttons already sent.
+   * @param id Stable callback id, used in callback data as-is
+   * @param callback The callback function to register
+   * @param options Registration options
+   * @returns A curried function that accumulates params until ctx is provided
+   */
+  cb<R, T extends any[], Ctx extends Context>(
+    callback: CallbackFunction<R, T, Ctx>,
+    options?: CallbackOptions,
+  ): CurriedCallback<R, T, Ctx>;
+  cb<R, T extends any[], Ctx extends Context>(
+    id: string,
+    callback: CallbackFunction<R, T, Ctx>,
+    options?: CallbackOptions,
+  ): CurriedCallback<R, T, Ctx>;
+
+  /**
+   * Deep version of `cb` — accepts a nested object where each leaf value is a
+   * callback function and returns a new object of the same shape with all
+   * callbacks converted to curried versions. Hashes are generated using both the
+   * property path inside the object and the function name to guarantee
+   * uniqueness.
+   *
+   * @example
+   * const callbacks = cbs({
+   *   shop: {
+   *     open: async (ctx) => { ... },
+   *     close: async (ctx) => { ... },
+   *   },
+   *   user: {
+   *     settings: {
+   *       show: async (ctx, id) => { ... },
+   *     },
+   *   },
+   * });
+   *
+   * callbacks.shop.open(ctx) //⇒ executes and registers automatically
+   *
+   * Pass `namespace` to use stable ids `<namespace>.<path>` instead of hashes.
+   *
+   * @param callbacksObj Nested object of callbacks
+   * @param options Registration options applied to every callback in the object
+   */
+  cbs<O extends Record<string, any>, Ctx extends Context = Context>(
+    callbacksObj: O,
+    options?: CallbackOptions,
+  ): DeepCurried<O, Ctx>;
+
+  /**
+   * Bind `cb` with a specific context type
+   */
+  bindCb<Ctx extends Context>(): {
+    <R, T extends any[]>(
+      callback: CallbackFunction<R, T, Ctx>,
+      options?: CallbackOptions,
+    ): CurriedCallback<R, T, Ctx>;
+    <R, T extends any[]>(
+      id: string,
+      callback: CallbackFunction<R, T, Ctx>,
+      options?: CallbackOptions,
+    ): CurriedCallback<R, T, Ctx>;
+  };
+
+  /**
+   * Bind callbacks object with a specific context type
+   * @returns A function that can convert callback objects to curried versions
+   */
+  bindCbs<Ctx extends Context>(): <O extends DeepCallbacksObj<Ctx>>(
+    callbacksObj: O,
+    options?: CallbackOptions,
+  ) => DeepCurried<O, Ctx>;
+
+  /**
+   * Keep buttons of renamed or moved callbacks working: map their old hashes to current callbacks
+   *
+   * @example
+   * aliasCallbacks({
+   *   'pay3f2a9c1b': 'order.pay', // hash of `cb(pay)` before it got the id
+   *   'shop.buy5e1c': handlers.order.pay,
+   * });
+   *
+   * @param aliases Old hashes mapped to callbacks or their current hashes
+   */
+  aliasCallbacks(aliases: Record<string, string | CallbackFunctionEx<any, any[], any>>): void;
+
+  /**
+   * Find a registered callback by its hash or legacy hash
+   */
+  getCallback(hash: string): CallbackFunctionEx<any, any[], any> | undefined;
+
+  /**
+   * Resolve callback data to the registered callback, without running it
+   * @param ctx The context with session, for `_ch:` data
+   * @param callbackData The callback data string
+   * @returns undefined if the callback is not registered or its session entry was dropped
+   */
+  resolveCallback(ctx: Context, callbackData: string): ResolvedCallback | undefined;
+
+  /**
+   * Execute a callback with the given callback data and context
+   * @param callbackData The callback data string
+   * @param ctx The Telegram router context
+   */
+  executeCallback(ctx: Context, callbackData: string, ...args: any[]): Promise<any>;
+
+  /**
+   * Run the callback of a pressed reply keyboard button
+   */
+  handleText(ctx: Context, next: () => Promise<void>): Promise<void>;
+
+  /**
+   * List registered callbacks
+   */
+  listCallbacks(): CallbackEntry[];
+
+  /**
+   * Decode callback data for debugging, signatures are stripped without verification
+   * @param callbackData The callback data string
+   * @param ctx Context of the user who pressed the button, needed for `_ch:` data
+   * @returns undefined if data is not a callback or its session entry is not available
+   */
+  decodeCallbackData(callbackData: string, ctx?: Context): DecodedCallbackData | undefined;
+}
+
+/**
+ * Create a registry of callbacks
+ * @param fallback Registry to look up callbacks missing in this one
+ */
+export function createRegistry(fallback?: CallbackRegistry): CallbackRegistry {
+  const callbacks: Record<string, CallbackFunctionEx<any, any[], any>> = {};
+  // Legacy hashes of renamed or moved callbacks, mapped to current hashes
+  const aliases: Record<string, string> = {};
+
+  function assertCallbackId(id: string) {
+    assert(
+      id && !/[:@!]/.test(id),
+      `Invalid callback id "${id}", it can't contain ":", "@" or "!"`,
+    );
+    assert(!callbacks[id], `Callback with id ${id} already registered`);
+  }
+
+  function cb(...args: any[]): CurriedCallback<any, any[], any> {
+    const [id, callback, options]: [
+      string | undefined,
+      CallbackFunction<any, any[], any>,
+      CallbackOptions?,
+    ] = typeof args[0] === 'string' ? [args[0], args[1], args[2]] : [undefined, args[0], args[1]];
+    if (id) assertCallbackId(id);
+    const hash = id ?? calculateFunctionHash(callback);
+
+    const cbEx = callback as CallbackFunctionEx<any, any[], any>;
+    // Register the callback in the registry
+    callbacks[hash] = cbEx;
+
+    cbEx.origin = cbEx;
+    cbEx.hash = hash;
+    cbEx.encoding = options?.encoding;
+    cbEx.debounceMs = options?.debounceMs;
+    cbEx.screen = options?.screen;
+    cbEx.middleware = [...(options?.use ?? []), ...getNodeMiddleware(callback)];
+    cbEx.curried = createCurried(cbEx);
+
+    return cbEx.curried;
+  }
+
+  function cbs<O extends Record<string, any>, Ctx extends Context = Context>(
+    callbacksObj: O,
+    options?: CallbackOptions,
+  ): DeepCurried<O, Ctx> {
+    const walk = (obj: any, parentPath = '', middleware = options?.use ?? []): any => {
+      if (typeof obj === 'function') {
+        const path = parentPath.replace(/^\./, ''); // remove leading dot
+        // namespaced ids don't depend on the file name, which changes under bundlers
+        const hash = options?.namespace
+          ? `${options.namespace}.${path}`
+          : calculateFunctionHashWithPath(obj, path, (taken) => !!callbacks[taken]);
+
+        if (options?.namespace) assertCallbackId(hash);
+        assert(!callbacks[hash], `Callback with hash ${hash} already registered`);
+
+        const cbEx = obj as CallbackFunctionEx<any, any[], any>;
+        // register in the registry
+        callbacks[hash] = cbEx;
+
+        cbEx.origin = cbEx;
+        cbEx.hash = hash;
+        cbEx.path = path;
+        cbEx.encoding = options?.encoding;
+        cbEx.debounceMs = options?.debounceMs;
+        cbEx.screen = options?.screen;
+        cbEx.middleware = [...middleware, ...getNodeMiddleware(obj)];
+        cbEx.curried = createCurried(cbEx);
+
+        return cbEx.curried;
+      }
+
+      if (obj && typeof obj === 'object') {
+        const result: any = Array.isArray(obj) ? [] : {};
+        const nodeMiddleware = [...middleware, ...getNodeMiddleware(obj)];
+        for (const key of Object.keys(obj)) {
+          const value = obj[key];
+          const childPath = parentPath ? `${parentPath}.${key}` : key;
+          result[key] = walk(value, childPath, nodeMiddleware);
+        }
+        return result;
+      }
+
+      // primitives are returned as-is
+      return obj;
+    };
+
+    return walk(callbacksObj) as DeepCurried<O, Ctx>;
+  }
+
+  function aliasCallbacks(
+    legacy: Record<string, string | CallbackFunctionEx<any, any[], any>>,
+  ): void {
+    for (const [legacyHash, target] of Object.entries(legacy)) {
+      assert(!callbacks[legacyHash], `Alias ${legacyHash} shadows a registered callback`);
+      aliases[legacyHash] = typeof target === 'string' ? target : target.origin.hash!;
+    }
+  }
+
+  function getCallback(hash: string): CallbackFunctionEx<any, any[], any> | undefined {
+    // old hashes of renamed or moved callbacks point to current ones
+    return callbacks[hash] ?? callbacks[aliases[hash]] ?? fallback?.getCallback(hash);
+  }
+
+  function resolveCallback(ctx: Context, callbackData: string): ResolvedCallback | undefined {
+    const parsed = parseCallbackData(ctx, callbackData);
+    const callback = parsed && getCallback(parsed.hash);
+    if (!callback) return undefined;
+
+    return { ...parsed, hash: callback.hash!, callback };
+  }
+
+  async function executeCallback(ctx: Context, callbackData: string, ...args: any[]): Promise<any> {
+    const resolved = resolveCallback(ctx, callbackData);
+    if (!resolved) {
+      throw new Error(`Callback ${callbackData} not found in registry or session`);
+    }
+
+    const { callback, paramsJson, encoding, sessionHash } = resolved;
+    if (sessionHash) touchParams(getSessionData(ctx), sessionHash);
+
+    // Parse and apply parameters
+    const decode = encoding === 'compact' ? decodeParamsCompact : decodeParams;
+    const params = paramsJson ? decode(paramsJson) : [];
+    return await invokeCallback(callback, ctx, [...params, ...args]);
+  }
+
+  async function handleText(ctx: Context, next: () => Promise<void>): Promise<void> {
+    const text = ctx.message?.text;
+    if (!text) {
+      return next();
+    }
+
+    // Check if text matches any registered reply callback, skip mappings of removed callbacks
+    const callbackData = findReplyCallbackData(ctx, text);
+    const resolved = callbackData ? resolveCallback(ctx, callbackData) : undefined;
+    if (callbackData && resolved && isRecipient(ctx, resolved)) {
+      const executed = await executeCallback(ctx, callbackData);
+      if (executed !== false) {
+        return; // Callback was executed successfully
+      }
+    }
+
+    // If no callback was found or execution failed, continue with normal processing
+    return next();
+  }
+
+  function listCallbacks(): CallbackEntry[] {
+    return Object.entries(callbacks).map(([hash, callback]) => ({
+      hash,
+      path: callback.path,
+      name: callback.name,
+      arity: Math.max(0, callback.length - 1),
+      aliases: Object.keys(aliases).filter((alias) => aliases[alias] === hash),
+    }));
+  }
+
+  function decodeCallbackData(
+    callbackData: string,
+    ctx?: Context,
+  ): DecodedCallbackData | undefined {
+    const parsed = parseCallbackData(ctx, stripSignature(callbackData));
+    if (!parsed?.hash) return undefined;
+
+    const hash = getCallback(parsed.hash)?.hash ?? parsed.hash;
+    const decode = parsed.encoding === 'compact' ? decodeParamsCompact : decodeParams;
+    const entries = [...listCallbacks(), ...(fallback?.listCallbacks() ?? [])];
+    return {
+      hash,
+      callback: entries.find((entry) => entry.hash === hash),
+      params: parsed.paramsJson ? decode(parsed.paramsJson) : [],
+      sessionHash: parsed.sessionHash,
+      recipients: parsed.recipients,
+      nonce: parsed.nonce,
+    };
+  }
+
+  return {
+    cb,
+    cbs,
+    bindCb: () => cb,
+    bindCbs: () => cbs,
+    aliasCallbacks,
+    getCallback,
+    resolveCallback,
+    executeCallback,
+    handleText,
+    listCallbacks,
+    decodeCallbackData,
+  } as CallbackRegistry;
+}
+
+/**
+ * Registry of callbacks of the library itself, like `Button.back`.
+ * It is the only fallback of other registries, so bots don't run callbacks of each other.
+ */
+export const internalRegistry = createRegistry();
+
+/**
+ * Registry of top-level `cb` and `cbs`, used by bots without own registries
+ */
+export const defaultRegistry = createRegistry(internalRegistry);
+
+export const { cb, cbs, bindCb, bindCbs, aliasCallbacks, listCallbacks } = defaultRegistry;
+
+/**
+ * Get registry of the bot handling the update, set by `setupCallbacks`
+ */
+function getContextRegistry(ctx: Context | undefined): CallbackRegistry {
+  return (ctx as any)?._registry ?? defaultRegistry;
+}
+
+/**
+ * Resolve callback data to the callback in the registry of the bot handling the update
+ * @see CallbackRegistry.resolveCallback
+ */
+export function resolveCallback(ctx: Context, callbackData: string): ResolvedCallback | undefined {
+  return getContextRegistry(ctx).resolveCallback(ctx, callbackData);
+}
+
+/**
+ * Execute a callback from the registry of the bot handling the update
+ * @see CallbackRegistry.executeCallback
+ */
+export function executeCallback(ctx: Context, callbackData: string, ...args: any[]): Promise<any> {
+  return getContextRegistry(ctx).executeCallback(ctx, callbackData, ...args);
+}
+
+/**
+ * Show the previous screen of navigation history, screens of removed callbacks are skipped
+ * @returns Result of the screen callback, undefined if there is no previous screen
+ */
+export async function goBack(ctx: Context): Promise<unknown> {
+  const data = getSessionData(ctx);
+  let previous = popScreen(data);
+  while (previous && !resolveCallback(ctx, previous)) previous = popScreen(data);
+
+  return previous ? await executeCallback(ctx, previous) : undefined;
+}
+
+/**
+ * Clear navigation history, the next shown screen starts it
+ */
+export function resetNavigation(ctx: Context): void {
+  delete getSessionData(ctx).navigation;
+}
+
+// button target of `Button.back`, shared by all registries
+const backCallback = internalRegistry.cb('_back', goBack);
+
+/**
+ * Run the callback of a pressed reply keyboard button
+ * @see CallbackRegistry.handleText
+ */
+export function handleText(ctx: Context, next: () => Promise<void>): Promise<void> {
+  return getContextRegistry(ctx).handleText(ctx, next);
+}
+
+/**
+ * Decode callback data with the registry of the bot handling the update, or the default one
+ * @see CallbackRegistry.decodeCallbackData
+ */
+export function decodeCallbackData(
+  callbackData: string,
+  ctx?: Context,
+): DecodedCallbackData | undefined {
+  return getContextRegistry(ctx).decodeCallbackData(callbackData, ctx);
 }
 
 /**
@@ -337,18 +884,39 @@ export function bindCbs<Ctx extends Context>() {
  */
 export const Button = {
   /**
-   * Create a button with callback data (works for both inline and reply)
+   * Create a button with callback data (works for both inline and reply).
+   * Oversized data is moved to session right away when `ctx` is given,
+   * otherwise by the `setupCallbacks` API transformer when the message is sent.
    */
   cb: <R = void, T extends any[] = any[], Ctx extends Context = Context>(
     text: string,
     callback: CallbackFunctionEx<R, T, Ctx>,
-  ): InlineKeyboardButton.CallbackButton => {
-    const data = callback.toCallbackData();
+    ctx?: Context,
+  ): CallbackButton => {
+    const fullData = callback.toCallbackData();
+    const data = ctx ? fitCallbackData(ctx, fullData) : fullData;
     return {
       text,
       callback_data: data,
-      // @ts-ignore duplicate, coz it grammy cut out known fields
-      _callback_data: data,
-    } as InlineKeyboardButton.CallbackButton & KeyboardButton.CommonButton;
+      // duplicate, coz it grammy cut out known fields
+      _callback_data: fullData,
+    };
   },
+
+  /**
+   * Create a reply keyboard button, pressing it sends the text that is mapped to the callback
+   */
+  reply: <R = void, T extends any[] = any[], Ctx extends Context = Context>(
+    text: string,
+    callback: CallbackFunctionEx<R, T, Ctx>,
+  ): ReplyCallbackButton => ({
+    text,
+    _callback_data: callback.toCallbackData(),
+  }),
+
+  /**
+   * Create a button showing the previous screen of navigation history,
+   * screens are callbacks registered with `screen` option
+   */
+  back: (text: string): CallbackButton => Button.cb(text, backCallback),
 };
@@ -0,0 +1,128 @@
+import type { CallbackSessionData, RetentionOptions } from './callbacks-types';
+import type { Context } from './lib-adapter';
+
+export const defaultRetention: Required<RetentionOptions> = {
+  maxParams: 300,
+  paramsTtlMs: 30 * 24 * 60 * 60 * 1000,
+  maxReplyMappings: 100,
+  maxNavigationDepth: 10,
+  maxMemorySessions: 10000,
+};
+
+/**
+ * Get retention options of the bot handling the context
+ */
+export function getRetention(ctx: Context): Required<RetentionOptions> {
+  return (ctx as any)._retention ?? defaultRetention;
+}
+
+/**
+ * Resolve retention options with defaults
+ */
+export function resolveRetention(options?: RetentionOptions): Required<RetentionOptions> {
+  return { ...defaultRetention, ...options };
+}
+
+/**
+ * Mark stored callback data as used, it moves to the end of eviction order
+ * @param data Session data
+ * @param sessionHash Key of the stored callback data
+ */
+export function touchParams(data: CallbackSessionData, sessionHash: string): void {
+  const entry = data.params[sessionHash];
+  if (!entry) return;
+
+  delete data.params[sessionHash];
+  data.params[sessionHash] = { ...entry, usedAt: Date.now() };
+}
+
+/**
+ * Drop expired and least recently used callback data, entries keep usage order
+ */
+export function pruneParams(data: CallbackSessionData, retention: Required<RetentionOptions>) {
+  const expiredBefore = Date.now() - retention.paramsTtlMs;
+  const keys = Object.keys(data.params);
+  let excess = keys.length - retention.maxParams;
+
+  for (const key of keys) {
+    const usedAt = data.params[key].usedAt;
+    if (excess > 0 || (usedAt && usedAt < expiredBefore)) {
+      delete data.params[key];
+      excess--;
+    }
+  }
+}
+
+/**
+ * Drop oldest reply keyboard mappings over the limit
+ */
+export function pruneReply(data: CallbackSessionData, retention: Required<RetentionOptions>) {
+  const keys = Object.keys(data.reply);
+  const excess = keys.length - retention.maxReplyMappings;
+
+  keys.slice(0, Math.max(0, excess)).forEach((key) => delete data.reply[key]);
+}
+
+/**
+ * Drop reply keyboard mappings of a scope, when its keyboard is replaced or removed
+ * @param data Session data
+ * @param scopePrefix Reply key prefix of the scope
+ */
+export function removeReplyScope(data: CallbackSessionData, scopePrefix: string) {
+  for (const key of Object.keys(data.reply)) {
+    if (key.startsWith(scopePrefix)) delete data.reply[key];
+  }
+}
+
+/**
+ * Mark single-use button as used by the user, expired and oldest marks over the limit are dropped
+ * @param data Session data
+ * @param key Button key, `<hash>!<nonce>`
+ * @param ttlMs How long the mark is kept
+ * @returns false if the button was used already
+ */
+export function markUsed(
+  data: CallbackSessionData,
+  key: string,
+  ttlMs: number,
+  retention: Required<RetentionOptions>,
+): boolean {
+  const now = Date.now();
+  const used = (data.used ??= {});
+  if (used[key] > now) return false;
+
+  // re-insert expired mark at the end of eviction order
+  delete used[key];
+  used[key] = now + ttlMs;
+  const keys = Object.keys(used);
+  let excess = keys.length - retention.maxParams;
+  for (const item of keys) {
+    if (excess > 0 || used[item] <= now) {
+      delete used[item];
+      excess--;
+    }
+  }
+  return true;
+}
+
+/**
+ * In-memory sessions for bots without session middleware, least recently used are dropped
+ * @param maxSessions Max sessions to keep
+ * @param initial Create session data for a new user
+ */
+export function createMemorySessions(
+  maxSessions: number,
+  initial: () => CallbackSessionData,
+): (key: number) => CallbackSessionData {
+  const sessions = new Map<number, CallbackSessionData>();
+
+  return (key) => {
+    const data = sessions.get(key) ?? initial();
+    // re-insert to move the session to the end of eviction order
+    sessions.delete(key);
+    sessions.set(key, data);
+
+    if (sessions.size > maxSessions) sessions.delete(sessions.keys().next().value!);
+    return data;
+  };
+}
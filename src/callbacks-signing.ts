@@ -0,0 +1,87 @@
+import type { SigningOptions } from './callbacks-types';
+import type { Context } from './lib-adapter';
+import { hmacBase64Url, safeEqual } from './utils/hmac';
+
+const DEFAULT_SIGNATURE_LENGTH = 8;
+
+// Signed prefix for every signable one: json and compact params
+const SIGNED_PREFIXES: Record<string, string> = { _cb: '_cs', _cc: '_ct' };
+const UNSIGNED_PREFIXES: Record<string, string> = { _cs: '_cb', _ct: '_cc' };
+
+export interface CallbackSigner {
+  /**
+   * Check if callback data carries params from the client and must be signed
+   */
+  canSign(callbackData: unknown): callbackData is string;
+  /**
+   * Sign `_cb:` or `_cc:` callback data for the given chat
+   * @returns `_cs:<signature>:<hash>[:<params>]`, `_ct:` for compact params
+   */
+  sign(callbackData: string, scopeId?: number | string): string;
+  /**
+   * Verify callback data pressed in the given context
+   * @returns Unsigned callback data to execute, or undefined when it must be rejected
+   */
+  verify(ctx: Context, callbackData: string): string | undefined;
+}
+
+/**
+ * Scope of a signature: the chat the button was sent to, empty for inline messages
+ */
+function getScopeId(ctx: Context) {
+  return ctx.chat?.id ?? '';
+}
+
+/**
+ * Remove signature from signed callback data without verifying it
+ * @returns Unsigned callback data, other data as-is
+ */
+export function stripSignature(callbackData: string): string {
+  const prefix = callbackData.slice(0, 3);
+  if (!(prefix in UNSIGNED_PREFIXES)) return callbackData;
+
+  const signed = callbackData.slice(4);
+  return `${UNSIGNED_PREFIXES[prefix]}:${signed.slice(signed.indexOf(':') + 1)}`;
+}
+
+/**
+ * Create HMAC signer for callback data
+ * @param options Signing options from `setupCallbacks`
+ */
+export function createSigner<Ctx extends Context>(options: SigningOptions<Ctx>): CallbackSigner {
+  const length = options.length ?? DEFAULT_SIGNATURE_LENGTH;
+  const signature = (unsigned: string, scopeId: number | string) =>
+    hmacBase64Url(options.secret, `${scopeId}:${unsigned}`).slice(0, length);
+
+  return {
+    canSign(callbackData): callbackData is string {
+      return typeof callbackData === 'string' && callbackData.slice(0, 3) in SIGNED_PREFIXES;
+    },
+
+    sign(callbackData, scopeId = '') {
+      const prefix = callbackData.slice(0, 3);
+      // hash and params of `_cb:hash:params`
+      const unsigned = callbackData.slice(4);
+      const sig = signature(`${prefix}:${unsigned}`, scopeId);
+      return `${SIGNED_PREFIXES[prefix]}:${sig}:${unsigned}`;
+    },
+
+    verify(ctx, callbackData) {
+      const prefix = callbackData.slice(0, 3);
+      if (prefix in UNSIGNED_PREFIXES) {
+        const sig = callbackData.slice(4, 4 + length);
+        const unsigned = `${UNSIGNED_PREFIXES[prefix]}:${callbackData.slice(4 + length + 1)}`;
+        if (!safeEqual(sig, signature(unsigned, getScopeId(ctx)))) return undefined;
+        return unsigned;
+      }
+
+      // buttons created before signing was enabled
+      if (prefix in SIGNED_PREFIXES) {
+        return options.acceptUnsigned ? callbackData : undefined;
+      }
+
+      // session references are stored on our side, nothing to forge
+      return callbackData;
+    },
+  };
+}
@@ -1,17 +1,99 @@
 import { KeyboardButton } from '@grammyjs/types/markup';
-import type { Context, FilterQuery, InlineKeyboardButton, SessionFlavor } from './lib-adapter';
+import type {
+  Contact,
+  Context,
+  Document,
+  FilterQuery,
+  InlineKeyboardButton,
+  Location,
+  PhotoSize,
+  SessionFlavor,
+  Video,
+  Voice,
+} from './lib-adapter';
+
+/**
+ * Kinds of user input a wait can collect, with the value passed to the handler
+ */
+export interface WaitInputs {
+  text: string;
+  photo: PhotoSize[];
+  contact: Contact;
+  location: Location;
+  document: Document;
+  voice: Voice;
+  video: Video;
+}
+
+export type WaitInput = keyof WaitInputs;
 
 /**
  * Prompt state stored in session
  */
 export interface WaitState {
+  // unique id of this wait, to match in-process timers
+  id: string;
   messageId: number;
   handlerId: string;
   filter?: FilterQuery[];
   cancelKeyword: string;
-  timeoutId: number;
+  // kind of input passed to the handler, text of message or callback data by default
+  input?: WaitInput;
+  // epoch ms after which the wait is expired
+  expiresAt?: number;
+  // callback data of the timeout handler
+  onTimeoutId?: string;
+  // callback data of the input validator
+  validatorId?: string;
+  // message sent when validator returns false
+  invalidMessage?: string;
+  // failed validations so far
+  attempts?: number;
+  maxAttempts?: number;
+  // callback data of the handler called after maxAttempts failed validations
+  onGiveUpId?: string;
 }
 
+/**
+ * Params format in callback data: `_cb:` JSON or `_cc:` compact base64url
+ */
+export type ParamsEncoding = 'json' | 'compact';
+
+/**
+ * Options for registering callbacks with `cb` and `cbs`
+ */
+export interface CallbackOptions {
+  // params format for buttons of these callbacks, default is global one
+  encoding?: ParamsEncoding;
+  // middleware run around every callback, before ones of `withMiddleware` nodes
+  use?: CallbackMiddleware<any>[];
+  // `cbs` only: register callbacks with stable ids `<namespace>.<path>` instead of hashes
+  namespace?: string;
+  // drop presses of these callbacks for this time in ms after the previous one started
+  debounceMs?: number;
+  // record the callbacks in navigation history for `Button.back`, 'root' starts new history
+  screen?: boolean | 'root';
+}
+
+/**
+ * Callback being run, passed to callback middleware
+ */
+export interface CallbackInfo {
+  hash: string;
+  // dot-separated path inside `cbs` object, undefined for `cb`
+  path?: string;
+  params: any[];
+}
+
+/**
+ * Middleware run around callbacks, return without calling `next` to skip the callback
+ */
+export type CallbackMiddleware<Ctx extends Context = Context> = (
+  ctx: Ctx,
+  next: () => Promise<unknown>,
+  info: CallbackInfo,
+) => unknown;
+
 export type CallbackFunction<R = void, T extends any[] = any[], Ctx extends Context = Context> = (
   ctx: Ctx,
   ...args: T
@@ -25,11 +107,36 @@ export interface CallbackFunctionEx<
   origin: CallbackFunctionEx<R, T, Ctx>;
   curried?: CurriedCallback<R, T, Ctx>;
   params?: any[];
+  // users allowed to press buttons of this callback
+  recipients?: number[];
   hash?: string;
+  path?: string;
+  encoding?: ParamsEncoding;
+  debounceMs?: number;
+  screen?: boolean | 'root';
+  middleware?: CallbackMiddleware<Ctx>[];
   toCallbackData: () => string;
-  button(text: string): InlineKeyboardButton.CallbackButton & KeyboardButton.CommonButton;
+  button(text: string, ctx?: Context): CallbackButton;
+  // bind buttons to the given users, presses of others are rejected
+  onlyFor(userIds: number | number[]): CurriedCallback<R, T, Ctx>;
+  // buttons of this callback work once, see `CallbacksOptions.singleUse`
+  singleUse?: boolean;
+  // make buttons single-use, each button gets its own nonce
+  once(): CurriedCallback<R, T, Ctx>;
+}
+
+/**
+ * Reply keyboard button bound to a callback, `setupCallbacks` maps its text to the callback
+ */
+export interface ReplyCallbackButton extends KeyboardButton.CommonButton {
+  _callback_data: string;
 }
 
+/**
+ * Button bound to a callback, works in both inline and reply keyboards
+ */
+export type CallbackButton = InlineKeyboardButton.CallbackButton & ReplyCallbackButton;
+
 export interface CurriedCallback<R = void, T extends any[] = [], Ctx extends Context = Context>
   extends CallbackFunctionEx<R, T, Ctx> {
   // Explicit overload for context first (immediate execution)
@@ -63,17 +170,167 @@ export interface CurriedCallback<R = void, T extends any[] = [], Ctx extends Con
     : CurriedCallback<R, [], Ctx>;
 }
 
+/**
+ * Codec for callback params that don't survive `JSON.stringify` as-is
+ */
+export interface ParamCodec<T = any, W = any> {
+  // short unique tag stored with encoded value
+  tag: string;
+  // check if the codec handles the value
+  is(value: unknown): value is T;
+  // convert value to JSON-compatible data
+  encode(value: T): W;
+  // restore value from encoded data
+  decode(data: W): T;
+}
+
 export type CallbackContext = Context & SessionFlavor<{ cb: CallbackSessionData }>;
 
+/**
+ * Callback data stored in session by `storeCallbackData`
+ */
+export interface StoredCallbackData {
+  hash: string;
+  params: string;
+  encoding?: ParamsEncoding;
+  // epoch ms when the entry was stored or pressed last time
+  usedAt?: number;
+}
+
+/**
+ * Form state stored in session while the user fills it
+ */
+export interface FormState {
+  name: string;
+  // index of the current field
+  step: number;
+  // answers by field key, encoded with param codecs
+  values: Record<string, unknown>;
+  // callback data of the completion handler
+  doneId: string;
+}
+
 export interface CallbackSessionData {
   reply: Record<string, string>;
-  params: Record<string, any>;
+  params: Record<string, StoredCallbackData>;
   // Prompt state for collecting user input
   wait?: WaitState;
+  // Form being filled
+  form?: FormState;
 
   lastHash?: string;
+  // single-use buttons pressed by the user, expiration epoch ms by `<hash>!<nonce>`
+  used?: Record<string, number>;
+  // callback data of shown screens, the current one is last
+  navigation?: string[];
 }
 
+/**
+ * Storage of message states, see `withMessageState`. Keys are `<chat>:<message>`,
+ * use one storage per bot
+ */
+export interface MessageStateStorage {
+  read(key: string): unknown | Promise<unknown>;
+  // undefined state drops it
+  write(key: string, state: unknown): void | Promise<void>;
+}
+
+/**
+ * Options for signing callback data with HMAC
+ */
+export interface SigningOptions<Ctx extends Context> {
+  // secret key for HMAC, keep it out of the source code
+  secret: string;
+  // signature length in base64url chars, default 8
+  length?: number;
+  // accept `_cb:` buttons sent before signing was enabled
+  acceptUnsigned?: boolean;
+  // called instead of the callback when signature is missing or invalid
+  onRejected?(ctx: Ctx, callbackData: string): unknown;
+}
+
+/**
+ * Limits of callback data kept in session
+ */
+export interface RetentionOptions {
+  // max callback data entries stored in session, least recently used are dropped, 300 by default
+  maxParams?: number;
+  // drop stored callback data not used for this time in ms, 30 days by default
+  paramsTtlMs?: number;
+  // max reply keyboard mappings in session, oldest are dropped, 100 by default
+  maxReplyMappings?: number;
+  // max screens in navigation history, the oldest are dropped, 10 by default
+  maxNavigationDepth?: number;
+  // max sessions kept in memory when there is no session middleware, 10000 by default
+  maxMemorySessions?: number;
+}
+
+/**
+ * Storage of callback locks, share one between bot instances to lock across processes
+ */
+export interface LockStorage {
+  // take the lock for ttlMs, false if it is already taken
+  acquire(key: string, ttlMs: number): boolean | Promise<boolean>;
+  // release the lock, or keep it for afterMs more
+  release(key: string, afterMs?: number): void | Promise<void>;
+}
+
+/**
+ * Protection from double presses: presses while the handler runs are dropped
+ */
+export interface LockingOptions {
+  // what presses share the lock: buttons of one message, one callback, or all presses of the user,
+  // 'message' by default
+  scope?: 'message' | 'callback' | 'user';
+  // drop presses for this time in ms after the previous one started, 0 by default
+  debounceMs?: number;
+  // lock expiration for handlers that never finish, 60 seconds by default
+  ttlMs?: number;
+  // in-memory by default
+  storage?: LockStorage;
+  // toast shown for dropped presses, false to answer without text
+  busyText?: string | false;
+}
+
+/**
+ * Handling of buttons made with `once()`
+ */
+export interface SingleUseOptions<Ctx extends Context> {
+  // buttons used by anyone, for votes in groups and coupons;
+  // used buttons are kept in session of the user by default, so others can still press them
+  storage?: LockStorage;
+  // how long used buttons are remembered, `retention.paramsTtlMs` by default
+  ttlMs?: number;
+  // remove the used button from the message, true by default
+  removeButton?: boolean;
+  // called for presses of used buttons, answers with "already used" toast by default
+  onUsed?(ctx: Ctx, callbackData: string): unknown;
+}
+
+/**
+ * Callback query answer returned from an inline handler
+ */
+export type CallbackAnswer = { toast: string } | { alert: string } | { url: string };
+
 export interface CallbacksOptions<Ctx extends Context> {
-  getSessionData(ctx: Ctx): CallbackSessionData;
+  getSessionData?(ctx: Ctx): CallbackSessionData;
+  // sign inline callback data to reject forged params
+  signing?: SigningOptions<Ctx>;
+  // limits of callback data kept in session
+  retention?: RetentionOptions;
+  // called for buttons of removed callbacks or dropped session entries,
+  // answers with "This button has expired" toast by default
+  onUnknownCallback?(ctx: Ctx, callbackData: string): unknown;
+  // answer callback queries left unanswered by handlers, true by default
+  autoAnswer?: boolean;
+  // toast shown when a handler throws, false to leave the query unanswered
+  errorText?: string | false;
+  // toast shown when a button bound with `onlyFor` is pressed by another user
+  notRecipientText?: string;
+  // drop double presses, callbacks with `debounceMs` are locked even without it
+  locking?: LockingOptions;
+  // single-use buttons made with `once()`
+  singleUse?: SingleUseOptions<Ctx>;
+  // states of messages shared by everyone in the chat, in-memory for 10000 latest messages by default
+  messageStateStorage?: MessageStateStorage;
 }
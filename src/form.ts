@@ -0,0 +1,204 @@
+import { encodeParam, decodeParam } from './callbacks-codecs';
+import {
+  type CallbackRegistry,
+  defaultRegistry,
+  executeCallback,
+  getSessionData,
+} from './callbacks-registry';
+import type { CurriedCallback, FormState, WaitInput, WaitInputs } from './callbacks-types';
+import type { Context } from './lib-adapter';
+import { clearWaitState, wait } from './wait';
+
+/**
+ * Form field declaration
+ */
+export interface FormField<V = any, K extends WaitInput = WaitInput> {
+  // question sent to the user
+  prompt: string;
+  // kind of input to collect, text by default
+  input?: K;
+  // true - valid, string - error message, false - invalid
+  validate?(value: WaitInputs[K], ctx: Context): boolean | string | Promise<boolean | string>;
+  // convert input to the result value
+  parse?(value: WaitInputs[K], ctx: Context): V | Promise<V>;
+  // show skip button, the value is undefined then
+  optional?: boolean;
+}
+
+/**
+ * Declare a typed form field, infers input and parsed value types
+ */
+export function field<K extends WaitInput = 'text', V = WaitInputs[K]>(
+  def: FormField<V, K>,
+): FormField<V, K> {
+  return def;
+}
+
+export type FormFields = Record<string, FormField<any, any>>;
+
+/**
+ * Result object of a filled form
+ */
+export type FormResult<F extends FormFields> = {
+  [K in keyof F]: F[K] extends FormField<infer V, any>
+    ? F[K]['optional'] extends true
+      ? V | undefined
+      : V
+    : never;
+};
+
+export interface FormOptions {
+  // button labels
+  backText?: string;
+  skipText?: string;
+  cancelText?: string;
+  // message sent when validate returns false
+  invalidMessage?: string;
+  // called when the user cancels the form
+  onCancel?: CurriedCallback<any>;
+  // registry of the bot filling the form, the default one if not set
+  registry?: CallbackRegistry;
+}
+
+export interface Form<F extends FormFields, Ctx extends Context = Context> {
+  /**
+   * Start filling the form, drops the form the user is filling now
+   * @param ctx The context
+   * @param onDone Curried completion handler, the result object is passed as the last param
+   */
+  start(ctx: Ctx, onDone: CurriedCallback<any, [FormResult<F>], Ctx>): Promise<void>;
+  /**
+   * Cancel the form if the user is filling it
+   */
+  cancel(ctx: Ctx): Promise<void>;
+}
+
+const DEFAULT_INVALID_MESSAGE = '⚠️ Invalid input, please try again';
+
+/**
+ * Create a multi-step form. Partial answers are stored in session, so the form survives restarts.
+ *
+ * @example
+ * const profileForm = form('profile', {
+ *   name: field({ prompt: 'Your name?', validate: (name) => name.length > 1 || 'Too short' }),
+ *   age: field({ prompt: 'Your age?', parse: (age) => Number(age) }),
+ *   avatar: field({ prompt: 'Your avatar', input: 'photo', optional: true }),
+ * });
+ *
+ * await profileForm.start(ctx, handlers.profile.save());
+ *
+ * @param name Unique form name, used in callback hashes
+ * @param fields Fields in the order they are asked
+ * @param options Form options
+ */
+export function form<F extends FormFields, Ctx extends Context = Context>(
+  name: string,
+  fields: F,
+  options?: FormOptions,
+): Form<F, Ctx> {
+  const keys = Object.keys(fields);
+
+  const getState = (ctx: Context, step?: number): FormState | undefined => {
+    const state = getSessionData(ctx).form;
+    if (state?.name !== name || (step !== undefined && state.step !== step)) return undefined;
+    return state;
+  };
+
+  const askField = async (ctx: Context, state: FormState) => {
+    if (state.step >= keys.length) return complete(ctx, state);
+
+    const field = fields[keys[state.step]];
+    const buttons = [];
+    if (state.step > 0)
+      buttons.push(handlers.back(state.step).button(options?.backText ?? '◀️ Back'));
+    if (field.optional)
+      buttons.push(handlers.skip(state.step).button(options?.skipText ?? '⏭ Skip'));
+    buttons.push(handlers.cancel().button(options?.cancelText ?? '❌ Cancel'));
+
+    await ctx.reply(field.prompt, { reply_markup: { inline_keyboard: [buttons] } });
+    wait(ctx, handlers.answer(state.step) as CurriedCallback<any, [string]>, {
+      input: field.input ?? 'text',
+    });
+  };
+
+  const complete = async (ctx: Context, state: FormState) => {
+    delete getSessionData(ctx).form;
+
+    const result: Record<string, unknown> = {};
+    for (const key of keys) result[key] = decodeParam(state.values[key]);
+    await executeCallback(ctx, state.doneId, result);
+  };
+
+  const answerCallbackQuery = async (ctx: Context) => {
+    if (ctx.callbackQuery) await ctx.answerCallbackQuery();
+  };
+
+  const registry = options?.registry ?? defaultRegistry;
+  const handlers = registry.cbs({
+    form: {
+      [name]: {
+        async answer(ctx: Context, step: number, value: any) {
+          const state = getState(ctx, step);
+          if (!state) return;
+
+          const field = fields[keys[step]];
+          const valid = field.validate ? await field.validate(value, ctx) : true;
+          if (valid !== true) {
+            await ctx.reply(
+              typeof valid === 'string' && valid
+                ? valid
+                : (options?.invalidMessage ?? DEFAULT_INVALID_MESSAGE),
+            );
+            // keep waiting for the answer
+            return false;
+          }
+
+          const parsed = field.parse ? await field.parse(value, ctx) : value;
+          state.values[keys[step]] = encodeParam(parsed);
+          state.step++;
+          await askField(ctx, state);
+        },
+
+        async back(ctx: Context, step: number) {
+          await answerCallbackQuery(ctx);
+          const state = getState(ctx, step);
+          if (!state) return;
+
+          state.step--;
+          await askField(ctx, state);
+        },
+
+        async skip(ctx: Context, step: number) {
+          await answerCallbackQuery(ctx);
+          const state = getState(ctx, step);
+          if (!state) return;
+
+          delete state.values[keys[step]];
+          state.step++;
+          await askField(ctx, state);
+        },
+
+        async cancel(ctx: Context) {
+          await answerCallbackQuery(ctx);
+          if (!getState(ctx)) return;
+
+          delete getSessionData(ctx).form;
+          clearWaitState(ctx);
+          if (options?.onCancel) await options.onCancel(ctx);
+        },
+      },
+    },
+  }).form[name];
+
+  return {
+    async start(ctx, onDone) {
+      const state: FormState = { name, step: 0, values: {}, doneId: onDone.toCallbackData() };
+      getSessionData(ctx).form = state;
+      await askField(ctx, state);
+    },
+
+    async cancel(ctx) {
+      await handlers.cancel(ctx);
+    },
+  };
+}
@@ -2,38 +2,135 @@
 export {
   cb,
   cbs,
+  aliasCallbacks,
   bindCb,
   bindCbs,
   executeCallback,
+  goBack,
+  resetNavigation,
+  resolveCallback,
+  listCallbacks,
+  decodeCallbackData,
   Button,
   BotContextSymbol,
   isCtx,
   isCurriedCallback,
   handleText,
   storeCallbackData,
+  fitCallbackData,
+  setDefaultEncoding,
+  MAX_CALLBACK_DATA_LENGTH,
 } from './callbacks-registry';
 
+// Export callback middleware helpers
+export { withMiddleware, guard } from './callbacks-compose';
+
+// Export lock storage
+export { createMemoryLockStorage } from './callbacks-locks';
+
+// Export param codecs
+export {
+  registerCodec,
+  enumCodec,
+  dateCodec,
+  bigintCodec,
+  undefinedCodec,
+  encodeParams,
+  decodeParams,
+  encodeParamsCompact,
+  decodeParamsCompact,
+} from './callbacks-codecs';
+
 // Export callback types
 export type {
+  CallbackAnswer,
+  CallbackButton,
   CallbackContext,
   CallbackFunction,
   CallbackFunctionEx,
+  CallbackInfo,
+  CallbackMiddleware,
   CurriedCallback,
   CallbackSessionData,
+  FormState,
+  LockingOptions,
+  LockStorage,
+  MessageStateStorage,
+  CallbackOptions,
+  CallbacksOptions,
+  ParamCodec,
+  ParamsEncoding,
+  ReplyCallbackButton,
+  RetentionOptions,
+  SigningOptions,
+  SingleUseOptions,
+  StoredCallbackData,
+  WaitInput,
+  WaitInputs,
   WaitState,
 } from './callbacks-types';
 
+// Export per-bot registries
+export { createCallbackRegistry } from './callbacks-instance';
+export { defaultRegistry } from './callbacks-registry';
+
+export type { BotCallbackRegistry } from './callbacks-instance';
+
 // Export types from callback registry
-export type { DeepCurried, DeepCallbacksObj } from './callbacks-registry';
+export type {
+  CallbackEntry,
+  CallbackRegistry,
+  DeepCurried,
+  DeepCallbacksObj,
+  DecodedCallbackData,
+  ResolvedCallback,
+} from './callbacks-registry';
+
+// Export registry manifest
+export { getCallbacksManifest, diffCallbacksManifest } from './callbacks-manifest';
+
+export type { CallbacksManifest, CallbacksManifestDiff } from './callbacks-manifest';
 
 // Export middleware
-export { setupCallbacks, initialCallbackData } from './callbacks-middleware';
+export { setupCallbacks, initialCallbackData, expiredButtonHandler } from './callbacks-middleware';
+
+export type { ExpiredButtonOptions } from './callbacks-middleware';
 
 // Export wait functionality
 export { wait, waitMiddleware, clearWaitState, handleWaitResponse } from './wait';
 
 export type { WaitOptions } from './wait';
 
+// Export ask and flow helpers
+export { ask, flow } from './ask';
+
+export type { AskOptions, FlowAsk, FlowFunction } from './ask';
+
+// Export form builder
+export { form, field } from './form';
+
+export type { Form, FormField, FormFields, FormOptions, FormResult } from './form';
+
+// Export keyboard builders
+export { CallbackInlineKeyboard, CallbackKeyboard } from './keyboards';
+
+export type { CallbackButtonSpec } from './keyboards';
+
+// Export pagination
+export { paginate } from './paginate';
+
+export type { PageInfo, PageItems, PaginateOptions, Paginator } from './paginate';
+
+// Export message state
+export {
+  withMessageState,
+  getMessageState,
+  setMessageState,
+  createMemoryMessageStateStorage,
+} from './message-state';
+
+export type { MessageRef, MessageStateFlavor } from './message-state';
+
 // Export lib adapter types
 export type {
   Bot,
@@ -0,0 +1,70 @@
+import { Button } from './callbacks-registry';
+import type { CallbackFunctionEx } from './callbacks-types';
+import { InlineKeyboard, Keyboard } from './lib-adapter';
+import type { Context, InlineKeyboardButton, KeyboardButton } from './lib-adapter';
+
+/**
+ * Button text and curried callback, for rows of callback buttons
+ */
+export type CallbackButtonSpec<Ctx extends Context = Context> = [
+  text: string,
+  callback: CallbackFunctionEx<any, any[], Ctx>,
+];
+
+/**
+ * `InlineKeyboard` with callback buttons
+ *
+ * @example
+ * new CallbackInlineKeyboard()
+ *   .cb('👤 Profile', handlers.profile.show())
+ *   .cb('⚙️ Settings', handlers.settings.show())
+ *   .cbRow(['🏠 Home', handlers.home.show()]);
+ */
+export class CallbackInlineKeyboard extends InlineKeyboard {
+  /**
+   * Add a callback button to the current row
+   */
+  cb<Ctx extends Context>(text: string, callback: CallbackFunctionEx<any, any[], Ctx>): this {
+    return this.add(Button.cb(text, callback));
+  }
+
+  /**
+   * Start a new row with the given callback buttons
+   */
+  cbRow<Ctx extends Context>(...buttons: CallbackButtonSpec<Ctx>[]): this {
+    return this.row(...buttons.map(([text, callback]) => Button.cb(text, callback)));
+  }
+
+  clone(inline_keyboard?: InlineKeyboardButton[][]): CallbackInlineKeyboard {
+    return Object.assign(new CallbackInlineKeyboard(), super.clone(inline_keyboard));
+  }
+}
+
+/**
+ * Reply `Keyboard` with callback buttons, `setupCallbacks` maps button texts to the callbacks
+ *
+ * @example
+ * new CallbackKeyboard()
+ *   .cb('📋 Menu', handlers.menu.show())
+ *   .cbRow(['❓ Help', handlers.help.show()])
+ *   .resized();
+ */
+export class CallbackKeyboard extends Keyboard {
+  /**
+   * Add a callback button to the current row
+   */
+  cb<Ctx extends Context>(text: string, callback: CallbackFunctionEx<any, any[], Ctx>): this {
+    return this.add(Button.reply(text, callback));
+  }
+
+  /**
+   * Start a new row with the given callback buttons
+   */
+  cbRow<Ctx extends Context>(...buttons: CallbackButtonSpec<Ctx>[]): this {
+    return this.row(...buttons.map(([text, callback]) => Button.reply(text, callback)));
+  }
+
+  clone(keyboard?: KeyboardButton[][]): CallbackKeyboard {
+    return Object.assign(new CallbackKeyboard(), super.clone(keyboard));
+  }
+}
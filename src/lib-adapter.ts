@@ -9,8 +9,20 @@ export {
 } from 'grammy';
 
 export type {
+  Chat,
+  Contact,
+  Document,
+  ForceReply,
   InlineKeyboardButton,
   InlineKeyboardMarkup,
   KeyboardButton,
+  Location,
+  Message,
+  PhotoSize,
   ReplyKeyboardMarkup,
-} from 'grammy/types'; 
\ No newline at end of file
+  Update,
+  User,
+  UserFromGetMe,
+  Video,
+  Voice,
+} from 'grammy/types';
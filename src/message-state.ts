@@ -0,0 +1,176 @@
+import type { MessageStateStorage } from './callbacks-types';
+import type { Context } from './lib-adapter';
+
+const MessageStateSymbol = Symbol('message-state');
+const PressedStateSymbol = Symbol('pressed-message-state');
+
+const DEFAULT_MAX_STATES = 10000;
+
+/**
+ * Context flavor with state of the message whose inline button was pressed
+ *
+ * @example
+ * type MyContext = Context & MessageStateFlavor<{ filter: string; page: number }>;
+ */
+export type MessageStateFlavor<S> = {
+  // undefined for other updates and messages without state, assign to replace it
+  messageState: S | undefined;
+};
+
+/**
+ * Bot message, as returned by `sendMessage` or found in `callbackQuery.message`
+ */
+export interface MessageRef {
+  chat: { id: number | string };
+  message_id: number;
+}
+
+// state of the pressed message, saved after handlers
+interface PressedState {
+  key: string;
+  state: unknown;
+}
+
+/**
+ * Key of message state in storage: `<chat>:<message>`
+ */
+export const getMessageKey = (message: MessageRef) => `${message.chat.id}:${message.message_id}`;
+
+/**
+ * Create in-memory message state storage, least recently used states are dropped
+ * @param maxStates Max states to keep, 10000 by default
+ */
+export function createMemoryMessageStateStorage(
+  maxStates = DEFAULT_MAX_STATES,
+): MessageStateStorage {
+  // kept as JSON, so handlers of concurrent presses don't share objects
+  const states = new Map<string, string>();
+
+  return {
+    read(key) {
+      const json = states.get(key);
+      if (json === undefined) return undefined;
+
+      // re-insert to move the state to the end of eviction order
+      states.delete(key);
+      states.set(key, json);
+      return JSON.parse(json);
+    },
+
+    write(key, state) {
+      states.delete(key);
+      if (state === undefined) return;
+
+      states.set(key, JSON.stringify(state));
+      if (states.size > maxStates) states.delete(states.keys().next().value!);
+    },
+  };
+}
+
+/**
+ * Attach initial state to the markup, it is stored for the message when the markup is sent or
+ * edited
+ *
+ * @example
+ * await ctx.reply('Orders', {
+ *   reply_markup: withMessageState(ordersKeyboard, { filter: 'all', page: 0 }),
+ * });
+ *
+ * @param markup Reply markup of the message
+ * @param state JSON-serializable state, copied for every message
+ */
+export function withMessageState<M extends object>(markup: M, state: unknown): M {
+  Object.defineProperty(markup, MessageStateSymbol, {
+    value: state,
+    enumerable: false,
+    configurable: true,
+  });
+  return markup;
+}
+
+/**
+ * Get state attached to the markup with `withMessageState`
+ */
+export function getAttachedState(markup: unknown): { state: unknown } | undefined {
+  if (!markup || typeof markup !== 'object' || !(MessageStateSymbol in markup)) return undefined;
+  return { state: (markup as any)[MessageStateSymbol] };
+}
+
+function getStorage(ctx: Context): MessageStateStorage {
+  const storage = (ctx as any)._messageStates;
+  if (!storage) throw new Error('Message state is not available, set up callbacks for the bot');
+  return storage;
+}
+
+/**
+ * Get state of the bot message
+ * @param ctx The context
+ * @param message The message
+ */
+export async function getMessageState<S>(
+  ctx: Context,
+  message: MessageRef,
+): Promise<S | undefined> {
+  const key = getMessageKey(message);
+  const pressed: PressedState | undefined = (ctx as any)[PressedStateSymbol];
+  if (pressed?.key === key) return pressed.state as S | undefined;
+
+  return (await getStorage(ctx).read(key)) as S | undefined;
+}
+
+/**
+ * Store state of the bot message
+ * @param ctx The context
+ * @param message The message
+ * @param state JSON-serializable state, undefined to drop it
+ */
+export async function setMessageState(
+  ctx: Context,
+  message: MessageRef,
+  state: unknown,
+): Promise<void> {
+  const key = getMessageKey(message);
+  const pressed: PressedState | undefined = (ctx as any)[PressedStateSymbol];
+  // state of the pressed message is saved after handlers
+  if (pressed?.key === key) pressed.state = state;
+  else await getStorage(ctx).write(key, state);
+}
+
+/**
+ * Load state of the pressed message and define `ctx.messageState` accessor
+ * @param ctx The context
+ * @param storage Message state storage of the bot
+ * @returns Function saving the state if handlers changed it
+ */
+export async function loadMessageState(
+  ctx: Context,
+  storage: MessageStateStorage,
+): Promise<() => Promise<void>> {
+  (ctx as any)._messageStates = storage;
+
+  const message = ctx.callbackQuery?.message;
+  const pressed: PressedState | undefined = message && {
+    key: getMessageKey(message),
+    state: await storage.read(getMessageKey(message)),
+  };
+  Object.defineProperty(ctx, PressedStateSymbol, { value: pressed, enumerable: false });
+
+  Object.defineProperty(ctx, 'messageState', {
+    get: () => pressed?.state,
+    set: (state: unknown) => {
+      if (!pressed)
+        throw new Error('Message state is available for inline buttons of bot messages');
+      pressed.state = state;
+    },
+    enumerable: false,
+    configurable: true,
+  });
+
+  // nested changes count too, state is compared by value
+  const loaded = JSON.stringify(pressed?.state);
+  return async () => {
+    if (pressed && JSON.stringify(pressed.state) !== loaded) {
+      await storage.write(pressed.key, pressed.state);
+    }
+  };
+}
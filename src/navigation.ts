@@ -0,0 +1,37 @@
+import type { CallbackSessionData } from './callbacks-types';
+
+// hash of `_cb:<hash>:<params>` screen data
+const screenHash = (screenData: string) => screenData.split(':', 2)[1];
+
+/**
+ * Record the shown screen in navigation history. Screen shown before is navigated back to: screens
+ * above it are dropped and its params are updated, so pages of one list are one entry.
+ * @param data Session data
+ * @param screenData Callback data of the screen with its params
+ * @param root Start new history from the screen
+ * @param maxDepth Max screens kept, the oldest are dropped
+ */
+export function pushScreen(
+  data: CallbackSessionData,
+  screenData: string,
+  root: boolean,
+  maxDepth: number,
+): void {
+  const stack = root ? [] : (data.navigation ?? []);
+  const idx = stack.findIndex((item) => screenHash(item) === screenHash(screenData));
+  const kept = idx === -1 ? stack : stack.slice(0, idx);
+  data.navigation = [...kept, screenData].slice(-maxDepth);
+}
+
+/**
+ * Drop the current screen from navigation history
+ * @param data Session data
+ * @returns Callback data of the previous screen, undefined if there is none
+ */
+export function popScreen(data: CallbackSessionData): string | undefined {
+  const stack = data.navigation ?? [];
+  if (stack.length < 2) return undefined;
+
+  data.navigation = stack.slice(0, -1);
+  return data.navigation.at(-1);
+}
@@ -0,0 +1,154 @@
+import { type CallbackRegistry, defaultRegistry } from './callbacks-registry';
+import type { CurriedCallback } from './callbacks-types';
+import type { Context, InlineKeyboardButton, InlineKeyboardMarkup } from './lib-adapter';
+
+/**
+ * Page of items with total count, to show page count in the indicator
+ */
+export interface PageItems<T> {
+  items: T[];
+  total: number;
+}
+
+export interface PageInfo<T> {
+  // zero-based page index
+  page: number;
+  // page count, undefined when loader returns no total
+  pages?: number;
+  items: T[];
+}
+
+export interface PaginateOptions<T, A extends any[], Ctx extends Context> {
+  // load items of the page, without total the next page is detected by loading one more item
+  load(ctx: Ctx, offset: number, limit: number, ...args: A): Promise<T[] | PageItems<T>>;
+  // render item as a button or a row of buttons, use curried callbacks for item actions
+  renderItem(item: T, index: number): InlineKeyboardButton | InlineKeyboardButton[];
+  // items per page, 10 by default
+  pageSize?: number;
+  // message text
+  text?: string | ((ctx: Ctx, info: PageInfo<T>, ...args: A) => string);
+  // extra rows under navigation, like a back button
+  footer?: (ctx: Ctx, ...args: A) => InlineKeyboardButton[][];
+  prevText?: string;
+  nextText?: string;
+  // registry of the bot showing the list, the default one if not set
+  registry?: CallbackRegistry;
+}
+
+export interface Paginator<A extends any[], Ctx extends Context> {
+  // show the page: edits the message on button press, sends a new one otherwise
+  show: CurriedCallback<void, [page: number, ...args: A], Ctx>;
+  // build keyboard of the page to send it in your own message
+  keyboard(ctx: Ctx, page: number, ...args: A): Promise<InlineKeyboardMarkup>;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Create a paginated list menu. Navigation buttons carry the page index and loader args in
+ * their curried params.
+ *
+ * @example
+ * const products = paginate('products', {
+ *   load: (ctx, offset, limit, categoryId: number) => db.products(categoryId, offset, limit),
+ *   renderItem: (product) => handlers.product.show(product.id).button(product.title),
+ *   footer: () => [[handlers.home.show().button('🏠 Back')]],
+ * });
+ *
+ * await products.show(ctx, 0, categoryId);
+ * handlers.category.products(0, categoryId).button('Products');
+ *
+ * @param name Unique list name, used in callback hashes
+ * @param options Pagination options
+ */
+export function paginate<T, A extends any[] = [], Ctx extends Context = Context>(
+  name: string,
+  options: PaginateOptions<T, A, Ctx>,
+): Paginator<A, Ctx> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  const loadPage = async (ctx: Ctx, page: number, args: A): Promise<PageInfo<T>> => {
+    const loaded = await options.load(ctx, page * pageSize, pageSize + 1, ...args);
+    if (Array.isArray(loaded)) {
+      // one more item than page size means there is a next page
+      return {
+        page,
+        pages: loaded.length > pageSize ? undefined : page + 1,
+        items: loaded.slice(0, pageSize),
+      };
+    }
+    return {
+      page,
+      pages: Math.max(1, Math.ceil(loaded.total / pageSize)),
+      items: loaded.items.slice(0, pageSize),
+    };
+  };
+
+  const buildKeyboard = (ctx: Ctx, info: PageInfo<T>, args: A): InlineKeyboardMarkup => {
+    const rows = info.items.map((item, index) => {
+      const row = options.renderItem(item, info.page * pageSize + index);
+      return Array.isArray(row) ? row : [row];
+    });
+
+    const hasNext = info.pages === undefined || info.page + 1 < info.pages;
+    if (info.page > 0 || hasNext) {
+      const nav: InlineKeyboardButton[] = [];
+      if (info.page > 0) {
+        nav.push(pageButton(info.page - 1, args, options.prevText ?? '◀️'));
+      }
+      nav.push(
+        handlers.noop().button(info.pages ? `${info.page + 1}/${info.pages}` : `${info.page + 1}`),
+      );
+      if (hasNext) {
+        nav.push(pageButton(info.page + 1, args, options.nextText ?? '▶️'));
+      }
+      rows.push(nav);
+    }
+
+    if (options.footer) rows.push(...options.footer(ctx, ...args));
+
+    return { inline_keyboard: rows };
+  };
+
+  const pageButton = (page: number, args: A, text: string) => {
+    const show = handlers.show as unknown as (...params: any[]) => CurriedCallback<void>;
+    return show(page, ...args).button(text);
+  };
+
+  const getText = (ctx: Ctx, info: PageInfo<T>, args: A) => {
+    if (typeof options.text === 'function') return options.text(ctx, info, ...args);
+    return options.text ?? `📋 Page ${info.page + 1}${info.pages ? `/${info.pages}` : ''}`;
+  };
+
+  const registry = options.registry ?? defaultRegistry;
+  const handlers = registry.cbs({
+    paginate: {
+      [name]: {
+        async show(ctx: Ctx, page: number, ...args: any[]) {
+          const info = await loadPage(ctx, page, args as A);
+          const text = getText(ctx, info, args as A);
+          const reply_markup = buildKeyboard(ctx, info, args as A);
+
+          if (ctx.callbackQuery?.message) {
+            await ctx.editMessageText(text, { reply_markup });
+            await ctx.answerCallbackQuery();
+          } else {
+            await ctx.reply(text, { reply_markup });
+          }
+        },
+
+        // page indicator
+        async noop(ctx: Ctx) {
+          await ctx.answerCallbackQuery();
+        },
+      },
+    },
+  }).paginate[name];
+
+  return {
+    show: handlers.show as unknown as Paginator<A, Ctx>['show'],
+    async keyboard(ctx, page, ...args) {
+      return buildKeyboard(ctx, await loadPage(ctx, page, args), args);
+    },
+  };
+}
@@ -0,0 +1,285 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { BotCallbackRegistry } from './callbacks-instance';
+import { setupCallbacks } from './callbacks-middleware';
+import type { CallbacksOptions } from './callbacks-types';
+import { Bot } from './lib-adapter';
+import type { Chat, Context, Message, Update, User, UserFromGetMe } from './lib-adapter';
+import { waitMiddleware } from './wait';
+
+/**
+ * API call captured by the test bot, payload as it would be sent to Telegram
+ */
+export interface ApiCall {
+  method: string;
+  payload: any;
+}
+
+/**
+ * Message sent by the test bot, edits are applied to it
+ */
+export interface SentMessage {
+  message_id: number;
+  chat_id: number | string;
+  text?: string;
+  reply_markup?: any;
+}
+
+export interface TestBotOptions<Ctx extends Context> {
+  // options of `setupCallbacks`
+  callbacks?: CallbacksOptions<Ctx>;
+  // registry of the bot, the default one otherwise
+  registry?: BotCallbackRegistry;
+  // context class, like in grammy `BotConfig`
+  ContextConstructor?: new (...args: any[]) => Ctx;
+  // results of API calls by method, sent message or `true` by default
+  results?: Record<string, (payload: any) => unknown>;
+  botInfo?: UserFromGetMe;
+}
+
+export interface TestChatOptions {
+  // chat of the update, private chat with the user by default
+  chat?: Chat;
+  // topic of a forum chat
+  threadId?: number;
+}
+
+/**
+ * Test user sending updates to the bot, methods return API calls made while handling the update
+ */
+export interface TestUser {
+  user: User;
+  chat: Chat;
+  // send text message, commands included
+  sendText(text: string): Promise<ApiCall[]>;
+  // send any message, like `{ contact: {...} }` or `{ photo: [...] }`
+  sendMessage(message: Partial<Message>): Promise<ApiCall[]>;
+  // press the button with the label on the latest message that has it, inline or reply keyboard
+  press(label: string): Promise<ApiCall[]>;
+  // press inline button with the callback data on the latest message of the chat
+  pressData(data: string, message?: SentMessage): Promise<ApiCall[]>;
+}
+
+export interface TestBot<Ctx extends Context> {
+  bot: Bot<Ctx>;
+  // all API calls in order
+  calls: ApiCall[];
+  // user sending updates, with a private chat by default
+  user(user: number | Partial<User>, options?: TestChatOptions): TestUser;
+  // messages sent to the chat, oldest first
+  messages(chatId: number | string): SentMessage[];
+  // latest message sent to the chat
+  lastMessage(chatId: number | string): SentMessage | undefined;
+}
+
+// fields of `getMe` vary between Bot API versions
+const DEFAULT_BOT_INFO = {
+  id: 1,
+  is_bot: true,
+  first_name: 'Test Bot',
+  username: 'test_bot',
+  can_join_groups: true,
+  can_read_all_group_messages: false,
+  supports_inline_queries: false,
+  can_connect_to_business: false,
+  has_main_web_app: false,
+} as UserFromGetMe;
+
+// chat ids are strings in payloads sent to usernames, keep one key type
+const chatKey = (chatId: number | string) => String(chatId);
+
+function findButton(markup: any, label: string): { inline?: any; reply?: any } | undefined {
+  for (const row of markup?.inline_keyboard ?? []) {
+    const button = row.find((item: any) => item.text === label);
+    if (button) return { inline: button };
+  }
+  for (const row of markup?.keyboard ?? []) {
+    const button = row.find((item: any) => (typeof item === 'string' ? item : item.text) === label);
+    if (button) return { reply: button };
+  }
+  return undefined;
+}
+
+/**
+ * Create a bot with `setupCallbacks` and `waitMiddleware` that works without Telegram.
+ * API calls are captured and answered with fake results, updates are sent by test users,
+ * buttons are pressed with their real callback data, so menus and waits run as in production.
+ * Register handlers on `bot` after creation.
+ *
+ * @example
+ * const tester = createTestBot();
+ * tester.bot.use(session({ initial: () => ({}) }));
+ * tester.bot.command('start', (ctx) => ctx.reply('Menu', { reply_markup: menu }));
+ *
+ * const user = tester.user(42);
+ * await user.sendText('/start');
+ * await user.press('⚙️ Settings');
+ * assert.equal(tester.lastMessage(42)?.text, 'Settings');
+ *
+ * @param options Test bot options
+ */
+export function createTestBot<Ctx extends Context = Context>(
+  options?: TestBotOptions<Ctx>,
+): TestBot<Ctx> {
+  const botInfo = options?.botInfo ?? DEFAULT_BOT_INFO;
+  const bot = new Bot<Ctx>('0:test', { botInfo, ContextConstructor: options?.ContextConstructor });
+  const calls: ApiCall[] = [];
+  // calls of the update being handled, updates handled at the same time get own lists
+  const updateCalls = new AsyncLocalStorage<ApiCall[]>();
+  const chats = new Map<string, SentMessage[]>();
+  // chats of test users, for results of sent messages
+  const knownChats = new Map<string, Chat>();
+  let lastMessageId = 0;
+  let lastUpdateId = 0;
+
+  const findMessage = (payload: any) =>
+    chats.get(chatKey(payload.chat_id))?.find((item) => item.message_id === payload.message_id);
+
+  const fakeResult = (method: string, payload: any): unknown => {
+    const custom = options?.results?.[method];
+    if (custom) return custom(payload);
+
+    if (method.startsWith('send') && payload.chat_id !== undefined) {
+      const message: SentMessage = {
+        message_id: ++lastMessageId,
+        chat_id: payload.chat_id,
+        text: payload.text ?? payload.caption,
+        reply_markup: payload.reply_markup,
+      };
+      const messages = chats.get(chatKey(payload.chat_id)) ?? [];
+      chats.set(chatKey(payload.chat_id), [...messages, message]);
+      return {
+        message_id: message.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: knownChats.get(chatKey(payload.chat_id)) ?? { id: payload.chat_id, type: 'private' },
+        from: botInfo,
+        text: message.text,
+      };
+    }
+
+    const message = findMessage(payload);
+    if (message && method === 'editMessageText') {
+      // edit without markup removes inline keyboard
+      Object.assign(message, { text: payload.text, reply_markup: payload.reply_markup });
+    } else if (message && method === 'editMessageReplyMarkup') {
+      message.reply_markup = payload.reply_markup;
+    } else if (message && method === 'deleteMessage') {
+      const messages = chats.get(chatKey(payload.chat_id))!;
+      chats.set(
+        chatKey(payload.chat_id),
+        messages.filter((item) => item !== message),
+      );
+    }
+    return true;
+  };
+
+  // installed first to get payloads after transformers of `setupCallbacks`
+  bot.api.config.use(async (_call, method, payload: any) => {
+    const apiCall = { method, payload };
+    calls.push(apiCall);
+    updateCalls.getStore()?.push(apiCall);
+    return { ok: true, result: fakeResult(method, payload) } as any;
+  });
+
+  if (options?.registry) options.registry.setupCallbacks(bot, options.callbacks);
+  else setupCallbacks(bot, options?.callbacks);
+  bot.use(waitMiddleware);
+
+  const messages = (chatId: number | string) => chats.get(chatKey(chatId)) ?? [];
+
+  const handle = async (update: Omit<Update, 'update_id'>) => {
+    const own: ApiCall[] = [];
+    await updateCalls.run(own, () =>
+      bot.handleUpdate({ update_id: ++lastUpdateId, ...update } as Update),
+    );
+    return own;
+  };
+
+  const user = (userOrId: number | Partial<User>, chatOptions?: TestChatOptions): TestUser => {
+    const info: User = {
+      is_bot: false,
+      first_name: 'Test User',
+      ...(typeof userOrId === 'number' ? { id: userOrId } : userOrId),
+    } as User;
+    const chat: Chat = chatOptions?.chat ?? {
+      id: info.id,
+      type: 'private',
+      first_name: info.first_name,
+    };
+    knownChats.set(chatKey(chat.id), chat);
+    const topic = chatOptions?.threadId
+      ? { message_thread_id: chatOptions.threadId, is_topic_message: true }
+      : {};
+
+    const sendMessage = (message: Partial<Message>) =>
+      handle({
+        message: {
+          message_id: ++lastMessageId,
+          date: Math.floor(Date.now() / 1000),
+          chat,
+          from: info,
+          ...topic,
+          ...message,
+        } as Update['message'],
+      });
+
+    const sendText = (text: string) => {
+      const command = /^\/\w+/.exec(text);
+      const entities = command
+        ? [{ type: 'bot_command' as const, offset: 0, length: command[0].length }]
+        : undefined;
+      return sendMessage({ text, entities });
+    };
+
+    const pressData = (data: string, message = messages(chat.id).at(-1)) =>
+      handle({
+        callback_query: {
+          id: String(++lastUpdateId),
+          from: info,
+          chat_instance: String(chat.id),
+          data,
+          message: message && {
+            message_id: message.message_id,
+            date: Math.floor(Date.now() / 1000),
+            chat,
+            from: botInfo,
+            text: message.text,
+            reply_markup: message.reply_markup,
+          },
+        } as any,
+      });
+
+    const press = (label: string) => {
+      for (const message of [...messages(chat.id)].reverse()) {
+        const found = findButton(message.reply_markup, label);
+        if (found?.inline) {
+          if (!found.inline.callback_data)
+            throw new Error(`Button "${label}" has no callback data`);
+          return pressData(found.inline.callback_data, message);
+        }
+        // pressing reply keyboard button sends its text
+        if (found?.reply) return sendText(label);
+      }
+
+      const labels = messages(chat.id)
+        .flatMap((message) => [
+          ...(message.reply_markup?.inline_keyboard ?? []),
+          ...(message.reply_markup?.keyboard ?? []),
+        ])
+        .flat()
+        .map((button: any) => (typeof button === 'string' ? button : button.text));
+      throw new Error(
+        `Button "${label}" not found, buttons in chat: ${[...new Set(labels)].join(', ')}`,
+      );
+    };
+
+    return { user: info, chat, sendText, sendMessage, press, pressData };
+  };
+
+  return {
+    bot,
+    calls,
+    user,
+    messages,
+    lastMessage: (chatId) => messages(chatId).at(-1),
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Compact positional binary format for JSON-compatible values, base64url encoded.
+ *
+ * Every value starts with a header byte: low 3 bits are the type, high 5 bits hold
+ * a small number (int value, string length, items count). 31 means the number
+ * doesn't fit and follows as varint, minus 31.
+ */
+
+const Type = {
+  Const: 0, // 0 - null, 1 - false, 2 - true
+  UInt: 1,
+  NegInt: 2, // -(n + 1)
+  Float: 3,
+  String: 4,
+  Array: 5,
+  Object: 6,
+} as const;
+
+type TypeId = (typeof Type)[keyof typeof Type];
+
+const INLINE_MAX = 31;
+
+class Writer {
+  bytes: number[] = [];
+
+  varint(n: number) {
+    while (n >= 0x80) {
+      this.bytes.push((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.bytes.push(n);
+  }
+
+  header(type: TypeId, n: number) {
+    if (n < INLINE_MAX) {
+      this.bytes.push(type | (n << 3));
+    } else {
+      this.bytes.push(type | (INLINE_MAX << 3));
+      this.varint(n - INLINE_MAX);
+    }
+  }
+
+  string(str: string) {
+    const buf = Buffer.from(str, 'utf8');
+    this.header(Type.String, buf.length);
+    this.bytes.push(...buf);
+  }
+
+  value(value: unknown) {
+    if (value === null) return this.header(Type.Const, 0);
+    if (value === false) return this.header(Type.Const, 1);
+    if (value === true) return this.header(Type.Const, 2);
+    if (typeof value === 'string') return this.string(value);
+
+    if (typeof value === 'number') {
+      if (Number.isSafeInteger(value)) {
+        return value >= 0 ? this.header(Type.UInt, value) : this.header(Type.NegInt, -value - 1);
+      }
+      const buf = Buffer.alloc(8);
+      buf.writeDoubleLE(value);
+      this.header(Type.Float, 0);
+      this.bytes.push(...buf);
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      this.header(Type.Array, value.length);
+      value.forEach((item) => this.value(item));
+      return;
+    }
+
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value);
+      this.header(Type.Object, entries.length);
+      for (const [key, item] of entries) {
+        this.string(key);
+        this.value(item);
+      }
+      return;
+    }
+
+    throw new TypeError(`Value ${String(value)} can't be encoded in compact format`);
+  }
+}
+
+class Reader {
+  pos = 0;
+  readonly buf: Buffer;
+
+  constructor(buf: Buffer) {
+    this.buf = buf;
+  }
+
+  byte() {
+    if (this.pos >= this.buf.length) throw new Error('Unexpected end of compact data');
+    return this.buf[this.pos++];
+  }
+
+  varint() {
+    let result = 0;
+    let mul = 1;
+    let byte;
+    do {
+      byte = this.byte();
+      result += (byte & 0x7f) * mul;
+      mul *= 0x80;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  header(): [TypeId, number] {
+    const byte = this.byte();
+    const n = byte >> 3;
+    return [(byte & 7) as TypeId, n === INLINE_MAX ? INLINE_MAX + this.varint() : n];
+  }
+
+  string(length: number) {
+    if (this.pos + length > this.buf.length) throw new Error('Unexpected end of compact data');
+    const str = this.buf.toString('utf8', this.pos, this.pos + length);
+    this.pos += length;
+    return str;
+  }
+
+  value(): unknown {
+    const [type, n] = this.header();
+    switch (type) {
+      case Type.Const:
+        if (n > 2) throw new Error(`Unknown compact constant ${n}`);
+        return [null, false, true][n];
+      case Type.UInt:
+        return n;
+      case Type.NegInt:
+        return -n - 1;
+      case Type.Float: {
+        const value = this.buf.readDoubleLE(this.pos);
+        this.pos += 8;
+        return value;
+      }
+      case Type.String:
+        return this.string(n);
+      case Type.Array:
+        return Array.from({ length: n }, () => this.value());
+      case Type.Object: {
+        const result: Record<string, unknown> = {};
+        for (let i = 0; i < n; i++) {
+          const [keyType, keyLength] = this.header();
+          if (keyType !== Type.String) throw new Error('Invalid object key in compact data');
+          const key = this.string(keyLength);
+          result[key] = this.value();
+        }
+        return result;
+      }
+      default:
+        throw new Error(`Unknown compact type ${type}`);
+    }
+  }
+}
+
+/**
+ * Encode values positionally, without array header
+ * @param values JSON-compatible values
+ */
+export function encodeCompact(values: unknown[]): string {
+  const writer = new Writer();
+  values.forEach((value) => writer.value(value));
+  return Buffer.from(writer.bytes).toString('base64url');
+}
+
+/**
+ * Decode values encoded with `encodeCompact`
+ * @param data base64url string
+ */
+export function decodeCompact(data: string): unknown[] {
+  const reader = new Reader(Buffer.from(data, 'base64url'));
+  const values: unknown[] = [];
+  while (reader.pos < reader.buf.length) values.push(reader.value());
+  return values;
+}
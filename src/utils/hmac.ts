@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+export const hmac = (secret: string, content: string) => {
+  return crypto.createHmac('sha256', secret).update(content);
+};
+
+export const hmacBase64Url = (secret: string, content: string) =>
+  hmac(secret, content).digest('base64url');
+
+export const safeEqual = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
@@ -0,0 +1,3 @@
+import crypto from 'crypto';
+
+export const randomBase64Url = (bytes: number) => crypto.randomBytes(bytes).toString('base64url');
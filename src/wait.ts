@@ -1,16 +1,58 @@
+import { randomBytes } from 'crypto';
 import { executeCallback, getSessionData, isCurriedCallback } from './callbacks-registry';
-import type { CurriedCallback } from './callbacks-types';
+import type { CurriedCallback, WaitInput, WaitState } from './callbacks-types';
 import type { Context, FilterQuery } from './lib-adapter';
 
 /**
  * Wait options for collecting user input
  */
 export interface WaitOptions {
+  // kind of input to collect, sets filter when it is not given
+  input?: WaitInput;
+  // called with the input before handler: true - valid, string - error message, false - invalid
   validator?: CurriedCallback<boolean | string>;
+  // message to re-prompt with when validator returns false
+  invalidMessage?: string;
+  // failed validations before giving up, unlimited by default
+  maxAttempts?: number;
+  // called instead of handler when maxAttempts is reached
+  onGiveUp?: CurriedCallback<any>;
   filter?: FilterQuery[];
   messageId?: number;
   cancelKeyword?: string;
   timeoutMs?: number;
+  // called when the wait expires, right away while the process runs,
+  // or with the next update of the user after restart
+  onTimeout?: CurriedCallback<any>;
+}
+
+// Update filter and value passed to the handler for each input kind
+const waitInputs: Record<WaitInput, { filter: FilterQuery; value: (ctx: Context) => unknown }> = {
+  text: { filter: 'message:text', value: (ctx) => ctx.message?.text },
+  photo: { filter: 'message:photo', value: (ctx) => ctx.message?.photo },
+  contact: { filter: 'message:contact', value: (ctx) => ctx.message?.contact },
+  location: { filter: 'message:location', value: (ctx) => ctx.message?.location },
+  document: { filter: 'message:document', value: (ctx) => ctx.message?.document },
+  voice: { filter: 'message:voice', value: (ctx) => ctx.message?.voice },
+  video: { filter: 'message:video', value: (ctx) => ctx.message?.video },
+};
+
+const DEFAULT_INVALID_MESSAGE = '⚠️ Invalid input, please try again';
+
+// Timers of waits with onTimeout, by wait id
+const timeoutTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Waits whose onTimeout already fired by timer, but the session may still hold them, by fire time
+const firedTimeouts = new Map<string, number>();
+// Forget fired timeouts of users who never came back
+const FIRED_TIMEOUTS_TTL = 24 * 60 * 60 * 1000;
+
+function markTimeoutFired(waitId: string) {
+  const now = Date.now();
+  for (const [id, firedAt] of firedTimeouts) {
+    if (now - firedAt < FIRED_TIMEOUTS_TTL) break;
+    firedTimeouts.delete(id);
+  }
+  firedTimeouts.set(waitId, now);
 }
 
 /**
@@ -19,12 +61,56 @@ export interface WaitOptions {
 export function clearWaitState(ctx: Context): void {
   const sessionData = getSessionData(ctx);
 
+  if (sessionData.wait?.id) {
+    clearTimeout(timeoutTimers.get(sessionData.wait.id));
+    timeoutTimers.delete(sessionData.wait.id);
+    firedTimeouts.delete(sessionData.wait.id);
+  }
   if (sessionData.wait?.messageId) {
-    ctx.deleteMessages([sessionData.wait.messageId]);
+    // not awaited, also runs from the timeout timer outside of updates; the message may be
+    // already deleted or too old to delete
+    ctx.deleteMessages([sessionData.wait.messageId]).catch(() => {});
   }
   delete sessionData.wait;
 }
 
+function isExpired(waitState: WaitState) {
+  return !!waitState.expiresAt && Date.now() >= waitState.expiresAt;
+}
+
+async function runTimeoutHandler(ctx: Context, waitState: WaitState) {
+  if (!waitState.onTimeoutId) return;
+
+  await executeCallback(ctx, waitState.onTimeoutId).catch((err: any) => {
+    console.warn('Error in wait timeout handler', err.stack);
+  });
+}
+
+/**
+ * Clear expired wait and run its timeout handler, unless the timer already did
+ */
+async function expireWait(ctx: Context, waitState: WaitState): Promise<void> {
+  const fired = firedTimeouts.has(waitState.id);
+  clearWaitState(ctx);
+
+  if (!fired) await runTimeoutHandler(ctx, waitState);
+}
+
+/**
+ * Schedule proactive timeout handler, lost on restart - then `handleWaitResponse` runs it
+ */
+function scheduleTimeout(ctx: Context, waitState: WaitState, timeoutMs: number) {
+  const timer = setTimeout(() => {
+    // session of a finished update may be not saved anymore, remember the timeout in process
+    if (getSessionData(ctx).wait === waitState) clearWaitState(ctx);
+    markTimeoutFired(waitState.id);
+    void runTimeoutHandler(ctx, waitState);
+  }, timeoutMs);
+  // don't keep the process alive for pending waits
+  timer.unref?.();
+  timeoutTimers.set(waitState.id, timer);
+}
+
 type WaitCallback<Ctx extends Context> = CurriedCallback<any, [string], Ctx>;
 
 export function wait<Ctx extends Context>(
@@ -64,17 +150,34 @@ export function wait<Ctx extends Context>(
   if (isCurriedCallback(filter)) {
     waitOptions = handler as WaitOptions;
     handler = filter as WaitCallback<Ctx>;
-    filter = ['message:text'];
+    filter = [waitOptions?.input ? waitInputs[waitOptions.input].filter : 'message:text'];
   }
 
+  const timeoutMs = waitOptions?.timeoutMs;
+
   // Store wait state
-  getSessionData(ctx).wait = {
+  const waitState: WaitState = {
+    id: randomBytes(6).toString('base64url'),
     messageId: waitOptions?.messageId || 0,
     cancelKeyword: (waitOptions?.cancelKeyword || '/cancelwait').toLowerCase(),
     filter: Array.isArray(filter) ? (filter as FilterQuery[]) : [filter as FilterQuery],
     handlerId: handler.toCallbackData(),
-    timeoutId: 0, // TODO: implement timeout with callback registry
   };
+  if (waitOptions?.input) waitState.input = waitOptions.input;
+  if (waitOptions?.validator) {
+    waitState.validatorId = waitOptions.validator.toCallbackData();
+    waitState.invalidMessage = waitOptions.invalidMessage;
+    waitState.maxAttempts = waitOptions.maxAttempts;
+    waitState.onGiveUpId = waitOptions.onGiveUp?.toCallbackData();
+  }
+  if (timeoutMs) {
+    waitState.expiresAt = Date.now() + timeoutMs;
+    if (waitOptions?.onTimeout) {
+      waitState.onTimeoutId = waitOptions.onTimeout.toCallbackData();
+      scheduleTimeout(ctx, waitState, timeoutMs);
+    }
+  }
+  getSessionData(ctx).wait = waitState;
 }
 
 /**
@@ -86,6 +189,12 @@ export async function handleWaitResponse(ctx: Context): Promise<boolean> {
 
   if (!waitState) return false;
 
+  // Expired wait doesn't take the update, it goes to regular handlers
+  if (isExpired(waitState)) {
+    await expireWait(ctx, waitState);
+    return false;
+  }
+
   // Check for cancel keyword
   let text;
   if (ctx.has('message:text')) {
@@ -101,10 +210,14 @@ export async function handleWaitResponse(ctx: Context): Promise<boolean> {
 
   if (waitState.filter && !ctx.has(waitState.filter)) return false;
 
+  const value = waitState.input ? waitInputs[waitState.input].value(ctx) : text;
+
+  if (waitState.validatorId && !(await validateWaitResponse(ctx, waitState, value))) return true;
+
   // Execute handler
   if (
     waitState.handlerId &&
-    (await executeCallback(ctx, waitState.handlerId, text).catch((err: any) => {
+    (await executeCallback(ctx, waitState.handlerId, value).catch((err: any) => {
       // if any error occurred - clear the state, or good result, only on false will not clear
       console.warn('Error while waiting for data', err.stack);
       return true;
@@ -121,6 +234,36 @@ export async function handleWaitResponse(ctx: Context): Promise<boolean> {
   return true;
 }
 
+/**
+ * Run wait validator, re-prompt or give up on invalid input
+ * @returns true if the input is valid and handler should run
+ */
+async function validateWaitResponse(
+  ctx: Context,
+  waitState: WaitState,
+  value: unknown,
+): Promise<boolean> {
+  const result = await executeCallback(ctx, waitState.validatorId!, value).catch((err: any) => {
+    console.warn('Error while validating wait input', err.stack);
+    return false;
+  });
+  if (result === true) return true;
+
+  waitState.attempts = (waitState.attempts ?? 0) + 1;
+  if (waitState.maxAttempts && waitState.attempts >= waitState.maxAttempts) {
+    clearWaitState(ctx);
+    if (waitState.onGiveUpId) await executeCallback(ctx, waitState.onGiveUpId);
+    return false;
+  }
+
+  await ctx.reply(
+    typeof result === 'string' && result
+      ? result
+      : (waitState.invalidMessage ?? DEFAULT_INVALID_MESSAGE),
+  );
+  return false;
+}
+
 /**
  * Middleware to handle wait responses
  */
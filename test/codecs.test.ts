@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cbs, enumCodec, registerCodec } from '../src/index';
+import { createTestBot } from '../src/testing';
+
+enum Status {
+  Pending = 'pending_payment',
+  Shipped = 'shipped_to_customer',
+}
+
+registerCodec(enumCodec<Status>('st', { [Status.Pending]: 'p', [Status.Shipped]: 's' }));
+
+let received: unknown[] | undefined;
+
+const receive =
+  () =>
+  async (_ctx: unknown, ...params: unknown[]) => {
+    received = params;
+  };
+const json = cbs({ json: { show: receive() } });
+const compact = cbs({ compact: { show: receive() } }, { encoding: 'compact' });
+
+const params = [
+  'текст 🙂',
+  -42,
+  1.5,
+  null,
+  true,
+  [1, [2, 'x']],
+  { nested: { ok: false } },
+  new Date('2026-01-02T03:04:05.000Z'),
+  12345678901234567890n,
+  undefined,
+  { $ref: 'escaped' },
+  Status.Shipped,
+];
+
+async function press(data: string) {
+  received = undefined;
+  const tester = createTestBot();
+  const calls = await tester.user(42).pressData(data);
+  return { tester, calls };
+}
+
+test('restores params of json and compact buttons', async () => {
+  for (const callback of [json.json.show, compact.compact.show]) {
+    const data = callback(...params).toCallbackData();
+    await press(data);
+    assert.deepEqual(received, params, data);
+  }
+});
+
+test('stores enum values as their tokens', () => {
+  const data = json.json.show(Status.Pending).toCallbackData();
+  assert.match(data, /:\[\{"\$st":"p"\}\]$/);
+});
+
+test('decodes objects with unknown tags as plain objects', async () => {
+  const [hash] = json.json.show().toCallbackData().split(':').slice(1);
+  await press(`_cb:${hash}:[{"$oid":"5f1d"}]`);
+  assert.deepEqual(received, [{ $oid: '5f1d' }]);
+});
+
+test('rejects unknown enum tokens', async () => {
+  const [hash] = json.json.show().toCallbackData().split(':').slice(1);
+  await assert.rejects(press(`_cb:${hash}:[{"$st":"x"}]`), /Unknown token x/);
+  assert.equal(received, undefined);
+});
+
+test('rejects malformed compact params without running the callback', async () => {
+  const valid = compact.compact.show('abc', 7).toCallbackData();
+  const prefix = valid.slice(0, valid.lastIndexOf(':') + 1);
+  const encoded = (bytes: number[]) => prefix + Buffer.from(bytes).toString('base64url');
+
+  for (const data of [
+    // string of 3 bytes cut after the first one
+    encoded([(3 << 3) | 4, 0x61]),
+    // array of 2 items with one
+    encoded([(2 << 3) | 5, 1 << 3]),
+    // float without its 8 bytes
+    encoded([3, 0, 0]),
+    // unknown type 7
+    encoded([7]),
+    // unknown constant 3
+    encoded([3 << 3]),
+    // object key that is not a string
+    encoded([(1 << 3) | 6, 1 << 3, 0]),
+    // huge array length
+    encoded([(31 << 3) | 5, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x7f]),
+  ]) {
+    received = undefined;
+    const tester = createTestBot();
+    await assert.rejects(tester.user(42).pressData(data), data);
+    assert.equal(received, undefined, data);
+
+    const answers = tester.calls.filter((call) => call.method === 'answerCallbackQuery');
+    assert.deepEqual(
+      answers.map((call) => call.payload.text),
+      ['⚠️ Something went wrong, please try again'],
+    );
+  }
+});
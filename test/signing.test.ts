@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { InlineKeyboard } from 'grammy';
+import { cbs } from '../src/index';
+import { createTestBot } from '../src/testing';
+
+const pressed: string[] = [];
+
+const handlers = cbs({
+  order: {
+    show: async (ctx) => {
+      await ctx.reply('Order', {
+        reply_markup: new InlineKeyboard().add(handlers.order.pay(7, 'card').button('💳 Pay')),
+      });
+    },
+    pay: async (_ctx, orderId: number, method: string) => {
+      pressed.push(`${orderId}:${method}`);
+    },
+  },
+});
+
+const secret = 'test-secret';
+
+async function showOrder(options?: { acceptUnsigned?: boolean }) {
+  pressed.length = 0;
+  const tester = createTestBot({ callbacks: { signing: { secret, ...options } } });
+  tester.bot.command('start', handlers.order.show());
+
+  const user = tester.user(42);
+  await user.sendText('/start');
+  const data: string = tester.lastMessage(42)?.reply_markup.inline_keyboard[0][0].callback_data;
+  return { tester, user, data };
+}
+
+const answers = (calls: { method: string; payload: any }[]) =>
+  calls.filter((call) => call.method === 'answerCallbackQuery').map((call) => call.payload.text);
+
+test('signs buttons when they are sent and runs signed presses', async () => {
+  const { user, data } = await showOrder();
+  assert.match(data, /^_cs:[\w-]{8}:/);
+
+  await user.press('💳 Pay');
+  assert.deepEqual(pressed, ['7:card']);
+});
+
+test('rejects presses with forged params', async () => {
+  const { user, data } = await showOrder();
+
+  const calls = await user.pressData(data.replace('[7,"card"]', '[8,"card"]'));
+  assert.deepEqual(answers(calls), ['⚠️ This button is not valid']);
+  assert.deepEqual(pressed, []);
+});
+
+test('rejects presses with stripped or forged signature', async () => {
+  const { user, data } = await showOrder();
+  const [, signature, unsigned] = /^_cs:([\w-]+):(.*)$/.exec(data)!;
+
+  for (const forged of [
+    `_cb:${unsigned}`,
+    `_cs:${unsigned}`,
+    `_cs:${'A'.repeat(signature.length)}:${unsigned}`,
+  ]) {
+    const calls = await user.pressData(forged);
+    assert.deepEqual(answers(calls), ['⚠️ This button is not valid'], forged);
+  }
+  assert.deepEqual(pressed, []);
+});
+
+test('rejects buttons signed for another chat', async () => {
+  const { tester, data } = await showOrder();
+
+  // same message shown in the chat of another user
+  const calls = await tester.user(43).pressData(data, tester.lastMessage(42));
+  assert.deepEqual(answers(calls), ['⚠️ This button is not valid']);
+  assert.deepEqual(pressed, []);
+});
+
+test('accepts unsigned buttons only with acceptUnsigned', async () => {
+  const { user, data } = await showOrder({ acceptUnsigned: true });
+  const unsigned = data.replace(/^_cs:[\w-]+:/, '_cb:');
+
+  await user.pressData(unsigned);
+  assert.deepEqual(pressed, ['7:card']);
+});
+
+test('throws when signed buttons are sent to a chat username', async () => {
+  const { tester } = await showOrder();
+
+  await assert.rejects(
+    tester.bot.api.sendMessage('@channel', 'Order', {
+      reply_markup: new InlineKeyboard().add(handlers.order.pay(7, 'card').button('💳 Pay')),
+    }),
+    /numeric chat ids/,
+  );
+});
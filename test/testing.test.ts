@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { InlineKeyboard } from 'grammy';
+import { cbs } from '../src/index';
+import { createTestBot } from '../src/testing';
+
+const handlers = cbs({
+  menu: {
+    show: async (ctx) => {
+      const keyboard = new InlineKeyboard().add(
+        handlers.menu.settings('dark').button('⚙️ Settings'),
+      );
+      await ctx.reply('Menu', { reply_markup: keyboard });
+    },
+    settings: async (ctx, theme: string) => {
+      await ctx.editMessageText(`Settings: ${theme}`);
+    },
+  },
+});
+
+test('presses buttons with their callback data and applies edits', async () => {
+  const tester = createTestBot();
+  tester.bot.command('start', handlers.menu.show());
+
+  const user = tester.user(42);
+  await user.sendText('/start');
+  assert.equal(tester.lastMessage(42)?.text, 'Menu');
+
+  const calls = await user.press('⚙️ Settings');
+  assert.deepEqual(
+    calls.map((call) => call.method),
+    ['editMessageText', 'answerCallbackQuery'],
+  );
+  assert.equal(tester.lastMessage(42)?.text, 'Settings: dark');
+  assert.equal(tester.lastMessage(42)?.reply_markup, undefined);
+  assert.throws(() => user.press('⚙️ Settings'), /not found/);
+});
+
+test('returns calls of each update when updates run at the same time', async () => {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const { pay } = cbs({
+    pay: async (ctx) => {
+      await released;
+      await ctx.reply('Paid');
+    },
+  });
+
+  const tester = createTestBot({ callbacks: { locking: {} } });
+  tester.bot.command('start', (ctx) =>
+    ctx.reply('Order', { reply_markup: new InlineKeyboard().add(pay().button('💳 Pay')) }),
+  );
+
+  const user = tester.user(42);
+  await user.sendText('/start');
+  const first = user.press('💳 Pay');
+  const second = await user.press('💳 Pay');
+  release();
+
+  assert.deepEqual(
+    second.map((call) => [call.method, call.payload.text]),
+    [['answerCallbackQuery', '⏳ Please wait…']],
+  );
+  assert.deepEqual(
+    (await first).map((call) => [call.method, call.payload.text]),
+    [
+      ['sendMessage', 'Paid'],
+      ['answerCallbackQuery', undefined],
+    ],
+  );
+});